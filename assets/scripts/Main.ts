@@ -1,4 +1,4 @@
-import { _decorator, Component, Prefab, Node, instantiate, TiledMapAsset, JsonAsset, SpriteFrame, sys, AudioSource, assert, resources } from 'cc';
+import { _decorator, Component, Prefab, Node, instantiate, TiledMapAsset, JsonAsset, SpriteFrame, sys, AudioSource, assert, resources, input, Input, KeyCode, EventKeyboard } from 'cc';
 const { ccclass, property } = _decorator;
 
 import { GameConfig } from "./config/GameConfig";
@@ -6,18 +6,26 @@ import LoaderManager, { LoadData, LoadDataType } from "./core/LoaderManager";
 import ArmyCommand from "./general/ArmyCommand";
 import GeneralCommand from "./general/GeneralCommand";
 import LoginCommand from "./login/LoginCommand";
+import ChatCommand from "./chat/ChatCommand";
 import MapCommand from "./map/MapCommand";
 import MapUICommand from "./map/ui/MapUICommand";
 import { HttpManager } from "./network/http/HttpManager";
 import { NetEvent } from "./network/socket/NetInterface";
 import { NetManager } from "./network/socket/NetManager";
-import { NetNodeType } from "./network/socket/NetNode";
+import { NetRecorder } from "./network/socket/NetRecorder";
+import { NetConnectOptions, NetNodeType } from "./network/socket/NetNode";
 import SkillCommand from "./skill/SkillCommand";
 import Toast from "./utils/Toast";
 import { Tools } from "./utils/Tools";
 import { EventMgr } from './utils/EventMgr';
 import { AudioManager } from './common/AudioManager';
 import { LogicEvent } from './common/LogicEvent';
+import { MockServer } from './network/mock/MockServer';
+import { MockData } from './network/mock/MockData';
+import { getNetCodec, INetCodec } from './network/socket/NetCodec';
+import { NetServerList, ServerEndpoint } from './network/NetServerList';
+import NetDebugLogic from './common/NetDebugLogic';
+import { loadClientDump, registerClientState, saveClientDump } from './common/ClientState';
 
 @ccclass('Main')
 export default class Main extends Component {
@@ -46,14 +54,25 @@ export default class Main extends Component {
     protected _mapUIScene: Node = null;
     protected _loadingNode: Node = null;
     protected _waitNode: Node = null;
+    protected _netDebugNode: Node = null;
     private _retryTimes: number = 0;
     private _h5GeneralPicIndex: number = 0;
     private _h5GeneralPic = [];
+    protected _codec: INetCodec = null;
+    protected _createChatWebSocket: (url: string) => WebSocket = null;
+    protected _offline: boolean = false;        //使用导出的状态离线运行
 
 
     protected onLoad(): void {
 
         console.log("main load");
+
+        if (GameConfig.eventTrace) {
+            EventMgr.startTrace();
+        }
+        if (GameConfig.netRecord) {
+            NetRecorder.getInstance().start();
+        }
         
         const audioSource = this.getComponent(AudioSource)!;
         assert(audioSource);
@@ -66,23 +85,54 @@ export default class Main extends Component {
         EventMgr.on(LogicEvent.showToast, this.onShowToast, this);
         EventMgr.on(LogicEvent.showWaiting, this.showWaitNode, this);
         EventMgr.on(LogicEvent.hideWaiting, this.hideWaitNode, this);
+        EventMgr.on(LogicEvent.toggleNetDebug, this.toggleNetDebugNode, this);
+        input.on(Input.EventType.KEY_DOWN, this.onKeyDown, this);
 
         EventMgr.on(NetEvent.ServerRequesting, this.showWaitNode,this);
         EventMgr.on(NetEvent.ServerRequestSucess,this.onServerRequest,this);
+        EventMgr.on(NetEvent.ServerReConnecting, this.onServerReConnecting, this);
+        EventMgr.on(NetEvent.ServerReconnected, this.onServerReconnected, this);
+        EventMgr.on(NetEvent.ServerReconnectGaveUp, this.onServerReconnectGaveUp, this);
+        EventMgr.on(NetEvent.ServerFailover, this.onServerFailover, this);
 
 
-        //初始化连接
-        NetManager.getInstance().connect({ url: GameConfig.serverUrl , type:NetNodeType.BaseServer });
-        HttpManager.getInstance().setWebUrl(GameConfig.webUrl);
-
         //初始化业务模块
         LoginCommand.getInstance();
         MapCommand.getInstance();
         MapUICommand.getInstance();
         GeneralCommand.getInstance();
         ArmyCommand.getInstance();
+        registerClientState();
+
+        if (GameConfig.clientDump) {
+            this.loadClientDump(GameConfig.clientDump);
+            return;
+        }
+
+        //初始化连接
+        this._codec = getNetCodec(GameConfig.netCodec);
+        let serverList = NetServerList.getInstance();
+        serverList.setList(GameConfig.serverList);
+        if (GameConfig.mockServer) {
+            let mockServer = new MockServer();
+            MockData.install(mockServer);
+
+            let mockChatServer = new MockServer();
+            MockData.installChat(mockChatServer);
+            this._createChatWebSocket = mockChatServer.createWebSocket;
+            this.connectServer(serverList.getList().slice(0, 1), mockServer.createWebSocket);
+        } else {
+            //先探测线路，可用的排在前面
+            serverList.probe().then((list) => {
+                this.connectServer(list, null);
+            });
+        }
 
         this.enterLogin();
+
+        if (GameConfig.netDebug) {
+            this.toggleNetDebugNode();
+        }
        
     }
 
@@ -90,12 +140,52 @@ export default class Main extends Component {
         console.log("main onDestroy");
 
         EventMgr.targetOff(this);
+        input.off(Input.EventType.KEY_DOWN, this.onKeyDown, this);
+    }
+
+    //F8开始/停止网络录制，F9开关网络诊断浮层，F10输出事件时间线，F11导出客户端状态
+    protected onKeyDown(event: EventKeyboard): void {
+        if (event.keyCode == KeyCode.F8) {
+            this.toggleNetRecord();
+        } else if (event.keyCode == KeyCode.F9) {
+            this.toggleNetDebugNode();
+        } else if (event.keyCode == KeyCode.F10) {
+            console.log("event trace:", EventMgr.exportTrace());
+        } else if (event.keyCode == KeyCode.F11) {
+            saveClientDump();
+        }
+    }
+
+    //停止录制时保存录制文件
+    protected toggleNetRecord(): void {
+        let recorder = NetRecorder.getInstance();
+        if (recorder.recording) {
+            recorder.stop();
+            console.log("net record saved:", recorder.save());
+        } else {
+            recorder.start();
+            console.log("net record start");
+        }
+    }
+
+    //加载导出的状态，离线进入地图
+    protected loadClientDump(path: string): void {
+        this._offline = true;
+        resources.load(path, JsonAsset, (error: Error, asset: JsonAsset) => {
+            if (error != null || !loadClientDump(asset.json)) {
+                console.log("加载状态文件失败", path, error);
+                this._offline = false;
+                this.enterLogin();
+            }
+        });
     }
 
     protected clearData(): void {
         MapCommand.getInstance().clearData();
         GeneralCommand.getInstance().clearData();
         ArmyCommand.getInstance().clearData();
+        ChatCommand.getInstance().logout();
+        ChatCommand.getInstance().clearData();
     }
 
     private enterLogin(): void {
@@ -144,11 +234,14 @@ export default class Main extends Component {
                 var d = (datas[5] as JsonAsset).json
                 MapCommand.getInstance().proxy.setWarFree(d["build"].war_free);
 
-                let cityId: number = MapCommand.getInstance().cityProxy.getMyMainCity().cityId;
-                GeneralCommand.getInstance().qryMyGenerals();
-                ArmyCommand.getInstance().qryArmyList(cityId);
-                MapUICommand.getInstance().qryWarReport();
-                SkillCommand.getInstance().qrySkillList();
+                //离线时数据已经从状态文件恢复
+                if (!this._offline) {
+                    let cityId: number = MapCommand.getInstance().cityProxy.getMyMainCity().cityId;
+                    GeneralCommand.getInstance().qryMyGenerals();
+                    ArmyCommand.getInstance().qryArmyList(cityId);
+                    MapUICommand.getInstance().qryWarReport();
+                    SkillCommand.getInstance().qrySkillList();
+                }
 
                 this.clearAllScene();
 
@@ -251,6 +344,17 @@ export default class Main extends Component {
     }
 
 
+    protected toggleNetDebugNode():void{
+        if (this._netDebugNode == null) {
+            this._netDebugNode = new Node("NetDebug");
+            this._netDebugNode.addComponent(NetDebugLogic);
+            this._netDebugNode.parent = this.node;
+            this._netDebugNode.active = false;
+        }
+        this._netDebugNode.setSiblingIndex(this.topLayer()+20);
+        this._netDebugNode.active = !this._netDebugNode.active;
+    }
+
     protected showTopToast(text:string = ""):void{
         if(this.toastNode == null){
             let toast = instantiate(this.toastPrefab);
@@ -263,13 +367,13 @@ export default class Main extends Component {
     }
 
 
-    private onServerRequest(msg:any):void{
+    private onServerRequest(msg:any, type:NetNodeType):void{
         if(msg.code == undefined || msg.code == 0 || msg.code == 9){
             this._retryTimes = 0;
             return;
         }
 
-        if(msg.code == -1 || msg.code == -2 || msg.code == -3 || msg.code == -4 ){
+        if(type == NetNodeType.BaseServer && (msg.code == -1 || msg.code == -2 || msg.code == -3 || msg.code == -4)){
             if (this._retryTimes < 3){
                 LoginCommand.getInstance().role_enterServer(LoginCommand.getInstance().proxy.getSession(), false);
                 this._retryTimes += 1;
@@ -280,6 +384,62 @@ export default class Main extends Component {
         this.showTopToast(Tools.getCodeStr(msg.code));
     }
 
+    //聊天服务器断线不影响游戏操作，只处理主服务器
+    private onServerReConnecting(times:number, type:NetNodeType):void{
+        if(type != NetNodeType.BaseServer){
+            return;
+        }
+        this.showWaitNode();
+        this.showTopToast("网络断开，正在第" + times + "次重连...");
+    }
+
+    private onServerReconnected(type:NetNodeType):void{
+        if(type != NetNodeType.BaseServer){
+            return;
+        }
+        this.hideWaitNode();
+    }
+
+    /**
+     * 连接第一条线路，其余作为备用
+     * @param list 排好序的线路
+     */
+    protected connectServer(list: ServerEndpoint[], createWebSocket: (url: string) => WebSocket): void {
+        let options: NetConnectOptions[] = list.map((endpoint) => {
+            return { url: endpoint.serverUrl, type: NetNodeType.BaseServer, codec: this._codec, cipher: GameConfig.netCipher, createWebSocket: createWebSocket };
+        });
+        NetManager.getInstance().setFailover(options);
+        this.useEndpoint(list[0]);
+        NetManager.getInstance().connect(options[0]);
+    }
+
+    //http和聊天服务器跟随游戏服务器的线路
+    protected useEndpoint(endpoint: ServerEndpoint): void {
+        NetServerList.getInstance().setCurrent(endpoint);
+        HttpManager.getInstance().setWebUrl(endpoint.webUrl);
+        //聊天服务器进入游戏后再连接
+        ChatCommand.getInstance().setConnectOptions({ url: endpoint.chatServerUrl, codec: this._codec, cipher: GameConfig.netCipher, createWebSocket: this._createChatWebSocket });
+    }
+
+    private onServerFailover(options: NetConnectOptions, type: NetNodeType): void {
+        if(type != NetNodeType.BaseServer){
+            return;
+        }
+        let endpoint = NetServerList.getInstance().findByUrl(options.url);
+        if (endpoint) {
+            this.useEndpoint(endpoint);
+            this.showTopToast("正在切换到线路 " + endpoint.name);
+        }
+    }
+
+    private onServerReconnectGaveUp(times:number, type:NetNodeType):void{
+        if(type != NetNodeType.BaseServer){
+            return;
+        }
+        this.hideWaitNode();
+        this.showTopToast("网络连接失败，请检查网络后重试");
+    }
+
     private onShowToast(msg:string) {
         this.showTopToast(msg);
     }
@@ -1,7 +1,10 @@
 import { _decorator } from 'cc';
 
 import { NetManager } from "../network/socket/NetManager";
+import { NetConnectOptions, NetNodeType } from "../network/socket/NetNode";
+import { NetEvent } from "../network/socket/NetInterface";
 import { ServerConfig } from "../config/ServerConfig";
+import { ServerResponse } from "../config/ServerProtocol";
 import ChatProxy from "./ChatProxy";
 import { EventMgr } from '../utils/EventMgr';
 import { LogicEvent } from '../common/LogicEvent';
@@ -29,14 +32,65 @@ export default class ChatCommand {
         return false;
     }
 
-    //数据model
+    //聊天服务器连接配置
+    protected _connectOptions: NetConnectOptions = null;
+    //聊天登录数据，断线重连后用于重新登录
+    protected _loginData: { rid: number, token: string, nickName: string } = null;
+    //已加入的联盟频道，重连后需要重新加入
+    protected _unionId: number = 0;
 
     constructor() {
+        EventMgr.on(NetEvent.ServerCheckLogin, this.onServerConneted, this);
+        EventMgr.on(NetEvent.ServerReconnected, this.onServerReconnected, this);
+        EventMgr.on(ServerConfig.chat_login, this.onChatLogin, this)
         EventMgr.on(ServerConfig.chat_history, this.onChatHistory, this)
         EventMgr.on(ServerConfig.chat_push, this.onChat, this)
     }
 
-    protected onChat(data:any):void{
+    /**连接或重连成功 登录聊天服务器*/
+    protected onServerConneted(type: NetNodeType): void {
+        if (type != NetNodeType.ChatServer) {
+            return;
+        }
+
+        if (this._loginData) {
+            let sendData = {
+                name: ServerConfig.chat_login,
+                msg: {
+                    rid: this._loginData.rid,
+                    token: this._loginData.token,
+                    nickName: this._loginData.nickName,
+                }
+            };
+            NetManager.getInstance().send(sendData, {}, false, NetNodeType.ChatServer);
+        } else {
+            EventMgr.emit(NetEvent.ServerHandShake, NetNodeType.ChatServer);
+        }
+    }
+
+    /**重连成功 断线期间的聊天推送已丢失，重新加入频道并拉取记录*/
+    protected onServerReconnected(type: NetNodeType): void {
+        if (type != NetNodeType.ChatServer || this._loginData == null) {
+            return;
+        }
+
+        if (this._unionId > 0) {
+            this.join(1, this._unionId);
+            this.chatHistory(1);
+        }
+        this.chatHistory(0);
+    }
+
+    //聊天登录
+    protected onChatLogin(data: ServerResponse<"chat.login">): void {
+        console.log("onChatLogin:", data);
+        if (data.code == 0) {
+            //登录完成，发送断线期间排队的聊天请求
+            EventMgr.emit(NetEvent.ServerHandShake, NetNodeType.ChatServer);
+        }
+    }
+
+    protected onChat(data:ServerResponse<"chat.push">):void{
         console.log("onChat:",data)
         if (data.code == 0) {
             if(data.msg.type == 0){
@@ -49,7 +103,7 @@ export default class ChatCommand {
     }
 
 
-    protected onChatHistory(data:any):void{
+    protected onChatHistory(data:ServerResponse<"chat.history">):void{
         console.log("onChatHistory:",data)
         if (data.code == 0) {
             if(data.msg.type == 0){
@@ -69,52 +123,90 @@ export default class ChatCommand {
         this._proxy.clearData();
     }
 
+    /**
+     * 设置聊天服务器地址，login时连接
+     * @param options
+     */
+    public setConnectOptions(options: NetConnectOptions): void {
+        options.type = NetNodeType.ChatServer;
+        this._connectOptions = options;
+    }
+
+    /**
+     * 登录聊天服务器，使用独立的连接，断线后自己重连重新登录
+     * @param rid 角色id
+     * @param token 进入游戏服务器时返回的token
+     * @param nickName 昵称
+     */
+    public login(rid: number, token: string, nickName: string = ''): void {
+        this._loginData = { rid: rid, token: token, nickName: nickName };
+        if (this._connectOptions == null) {
+            console.log("ChatCommand login no connect options");
+            return;
+        }
+        //已连接时不会重复连接
+        NetManager.getInstance().connect(this._connectOptions);
+    }
+
+    /**退出登录 断开聊天服务器*/
+    public logout(): void {
+        this._loginData = null;
+        this._unionId = 0;
+        NetManager.getInstance().close(undefined, undefined, NetNodeType.ChatServer);
+    }
+
     public get proxy(): ChatProxy {
         return this._proxy;
     }
 
 
     public chat(msg:string,type:number = 0):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.chat_chat,
             msg: {
                 msg:msg,
                 type:type,
             }
         };
-        NetManager.getInstance().send(sendData);
+        NetManager.getInstance().send(sendData, {}, false, NetNodeType.ChatServer);
     }
 
     public join(type:number,id:number):void{
-        let sendData: any = {
+        if (type == 1) {
+            this._unionId = id;
+        }
+        let sendData = {
             name: ServerConfig.chat_join,
             msg: {
                 type:type,
                 id:id,
             }
         };
-        NetManager.getInstance().send(sendData);
+        NetManager.getInstance().send(sendData, {}, false, NetNodeType.ChatServer);
     }
 
     public exit(type:number,id:number):void{
-        let sendData: any = {
+        if (type == 1) {
+            this._unionId = 0;
+        }
+        let sendData = {
             name: ServerConfig.chat_exit,
             msg: {
                 type:type,
                 id:id,
             }
         };
-        NetManager.getInstance().send(sendData);
+        NetManager.getInstance().send(sendData, {}, false, NetNodeType.ChatServer);
     }
 
     public chatHistory(type:number):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.chat_history,
             msg: {
                 type:type,
             }
         };
-        NetManager.getInstance().send(sendData);
+        NetManager.getInstance().send(sendData, {}, false, NetNodeType.ChatServer);
     }
 
     
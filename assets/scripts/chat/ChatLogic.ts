@@ -11,6 +11,7 @@ import ListLogic from '../utils/ListLogic';
 import { EventMgr } from '../utils/EventMgr';
 import { AudioManager } from '../common/AudioManager';
 import { LogicEvent } from '../common/LogicEvent';
+import { CacheKeys, LocalCache } from '../utils/LocalCache';
 
 
 @ccclass('ChatLogic')
@@ -31,10 +32,12 @@ export default class ChatLogic extends Component {
 
     protected onDisable():void{
         EventMgr.targetOff(this);
+        LocalCache.set(CacheKeys.chatDraft, this.editConent.string);
     }
 
     protected onEnable():void{
         console.log("onEnable")
+        this.editConent.string = LocalCache.get(CacheKeys.chatDraft);
         this.updateUnion();
         this.updateView();
     }
@@ -49,7 +52,7 @@ export default class ChatLogic extends Component {
         }
     }
 
-    protected updateChat(data:any[]){
+    protected updateChat(){
         if(this._type == 0){
             var comp = this.chatView.node.getComponent(ListLogic);
             var list:ChatMsg[] = ChatCommand.getInstance().proxy.getWorldChatList();
@@ -75,4 +75,13 @@ export default class ChatProxy {
     public getUnionChatList():ChatMsg[]{
         return this._unionMsgList;
     }
+
+    public dumpState():any{
+        return {world: this._worldMsgList, union: this._unionMsgList};
+    }
+
+    public restoreState(data:any):void{
+        this._worldMsgList = data.world.map((chat:any) => { return Object.assign(new ChatMsg(), chat); });
+        this._unionMsgList = data.union.map((chat:any) => { return Object.assign(new ChatMsg(), chat); });
+    }
 }
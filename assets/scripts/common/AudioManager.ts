@@ -1,5 +1,7 @@
 import { _decorator, AudioClip, AudioSource, assert, clamp01, warn, resources } from "cc";
 import { LocalCache } from "../utils/LocalCache";
+import { EventMgr } from "../utils/EventMgr";
+import { LogicEvent } from "./LogicEvent";
 
 
 
@@ -20,13 +22,19 @@ export class AudioManager {
 
     // init AudioManager in GameRoot.
     init (audioSource: AudioSource) {
-        this.soundVolume = this.getConfiguration(false) ? 1 : 0;
         AudioManager._audioSource = audioSource;
-        
+        this.applyConfiguration();
+        EventMgr.on(LogicEvent.loginComplete, this.applyConfiguration, this);
+    }
+
+    //设置按账号保存，登录后按新账号的设置重新开关，不写回缓存
+    applyConfiguration () {
+        this.soundVolume = this.getConfiguration(false) ? 1 : 0;
         if(this.getConfiguration(true)){
-            this.openMusic();
+            this.setMusicVolume(0.2);
+            this.playMusic(true);
         }else{
-            this.closeMusic();
+            AudioManager._audioSource.stop();
         }
     }
 
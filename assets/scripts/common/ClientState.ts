@@ -0,0 +1,208 @@
+import { ClientDump, ClientStore } from "../core/ClientStore";
+import ChatCommand from "../chat/ChatCommand";
+import ChatProxy from "../chat/ChatProxy";
+import ArmyCommand from "../general/ArmyCommand";
+import ArmyProxy from "../general/ArmyProxy";
+import GeneralCommand from "../general/GeneralCommand";
+import GeneralProxy from "../general/GeneralProxy";
+import LoginCommand from "../login/LoginCommand";
+import LoginProxy from "../login/LoginProxy";
+import MapBuildProxy from "../map/MapBuildProxy";
+import MapCityProxy from "../map/MapCityProxy";
+import MapCommand from "../map/MapCommand";
+import MapProxy from "../map/MapProxy";
+import MapUICommand from "../map/ui/MapUICommand";
+import MapUIProxy from "../map/ui/MapUIProxy";
+import UnionCommand from "../union/UnionCommand";
+import UnionProxy from "../union/UnionProxy";
+import { EventMgr } from "../utils/EventMgr";
+import { LogicEvent } from "./LogicEvent";
+
+
+/**
+ * 把各模块的proxy登记到ClientStore
+ * 只放玩家自己的数据，地图格子、配置表这类可以重新拉取或加载的数据不放进快照；
+ * 登录session和token不放进快照；
+ * dump/restore导出完整数据(含当前显示区域的城池、建筑)，用于bug报告离线复现
+ */
+export function registerClientState(): void {
+    let store = ClientStore.getInstance();
+
+    store.register({
+        name: "login",
+        proxyClass: LoginProxy,
+        getProxy: () => { return LoginCommand.getInstance().proxy; },
+        mutators: ["saveEnterData", "setRoleResData", "setRoleData", "clear"],
+        select: (proxy: LoginProxy) => {
+            return { serverId: proxy.serverId, role: proxy.getRoleData(), roleRes: proxy.getRoleResData() };
+        },
+        dump: (proxy: LoginProxy) => { return proxy.dumpState(); },
+        restore: (proxy: LoginProxy, data: any) => { proxy.restoreState(data); },
+    });
+
+    store.register({
+        name: "map",
+        proxyClass: MapProxy,
+        getProxy: () => { return MapCommand.getInstance().proxy; },
+        mutators: ["initData", "clearData", "setWarFree", "setCurCenterPoint", "updateMapPosTags", "removeMapPosTag", "addMapPosTag"],
+        select: (proxy: MapProxy) => {
+            return {
+                warFree: proxy.getWarFree(),
+                centerPoint: proxy.getCurCenterPoint(),
+                centerAreaId: proxy.getCurCenterAreaId(),
+                posTags: proxy.getPosTags(),
+            };
+        },
+        dump: (proxy: MapProxy) => { return proxy.dumpState(); },
+        restore: (proxy: MapProxy, data: any) => { proxy.restoreState(data); },
+    });
+
+    store.register({
+        name: "city",
+        proxyClass: MapCityProxy,
+        getProxy: () => { return MapCommand.getInstance().cityProxy; },
+        mutators: ["initData", "clearData", "initMyCitys", "updateMyCityIds", "updateCity"],
+        select: (proxy: MapCityProxy) => {
+            return { myId: proxy.myId, myUnionId: proxy.myUnionId, myParentId: proxy.myParentId, myCitys: proxy.getMyCitys() };
+        },
+        dump: (proxy: MapCityProxy) => { return proxy.dumpState(); },
+        restore: (proxy: MapCityProxy, data: any) => { proxy.restoreState(data); },
+    });
+
+    store.register({
+        name: "build",
+        proxyClass: MapBuildProxy,
+        getProxy: () => { return MapCommand.getInstance().buildProxy; },
+        mutators: ["initData", "clearData", "initMyBuilds", "updateMyBuildIds", "updateBuild", "removeBuild", "removeMyBuild", "updateSub"],
+        select: (proxy: MapBuildProxy) => {
+            return { myBuilds: proxy.getMyBuildList() };
+        },
+        dump: (proxy: MapBuildProxy) => { return proxy.dumpState(); },
+        restore: (proxy: MapBuildProxy, data: any) => { proxy.restoreState(data); },
+    });
+
+    store.register({
+        name: "army",
+        proxyClass: ArmyProxy,
+        getProxy: () => { return ArmyCommand.getInstance().proxy; },
+        mutators: ["clearData", "updateArmys", "updateArmy", "updateArmysNoCity"],
+        select: (proxy: ArmyProxy) => {
+            return { armys: proxy.getAllArmys() };
+        },
+        dump: (proxy: ArmyProxy) => { return proxy.dumpState(); },
+        restore: (proxy: ArmyProxy, data: any) => { proxy.restoreState(data); },
+    });
+
+    store.register({
+        name: "general",
+        proxyClass: GeneralProxy,
+        getProxy: () => { return GeneralCommand.getInstance().proxy; },
+        mutators: ["clearData", "updateMyGenerals", "updateGeneral", "removeMyGenerals"],
+        select: (proxy: GeneralProxy) => {
+            return { myGenerals: proxy.getMyGenerals() };
+        },
+        dump: (proxy: GeneralProxy) => { return proxy.dumpState(); },
+        restore: (proxy: GeneralProxy, data: any) => { proxy.restoreState(data); },
+    });
+
+    store.register({
+        name: "mapUI",
+        proxyClass: MapUIProxy,
+        getProxy: () => { return MapUICommand.getInstance().proxy; },
+        mutators: ["clearData", "updateMyFacilityList", "updateMyFacility", "updateMyCityAdditions",
+            "updateWarReports", "updateWarReport", "updateWarRead", "updateAllWarRead"],
+        select: (proxy: MapUIProxy) => {
+            return { facilitys: proxy.getMyAllFacilitys(), warReports: proxy.getWarReport() };
+        },
+        dump: (proxy: MapUIProxy) => { return proxy.dumpState(); },
+        restore: (proxy: MapUIProxy, data: any) => { proxy.restoreState(data); },
+    });
+
+    store.register({
+        name: "union",
+        proxyClass: UnionProxy,
+        getProxy: () => { return UnionCommand.getInstance().proxy; },
+        deps: ["city"],
+        mutators: ["clearData", "updateUnionList", "updateMemberList", "updateNotice", "updateApplyList", "updateApply"],
+        select: (proxy: UnionProxy) => {
+            let unionId = MapCommand.getInstance().cityProxy.myUnionId;
+            return {
+                unions: proxy.getUnionList(),
+                members: proxy.getMemberList(unionId) || [],
+                applyCnt: proxy.getApplyCnt(unionId),
+            };
+        },
+        dump: (proxy: UnionProxy) => { return proxy.dumpState(); },
+        restore: (proxy: UnionProxy, data: any) => { proxy.restoreState(data); },
+    });
+
+    store.register({
+        name: "chat",
+        proxyClass: ChatProxy,
+        getProxy: () => { return ChatCommand.getInstance().proxy; },
+        mutators: ["clearData", "updateWorldChatList", "updateUnionChatList", "updateWorldChat", "updateUnionChat"],
+        select: (proxy: ChatProxy) => {
+            return { world: proxy.getWorldChatList(), union: proxy.getUnionChatList() };
+        },
+        dump: (proxy: ChatProxy) => { return proxy.dumpState(); },
+        restore: (proxy: ChatProxy, data: any) => { proxy.restoreState(data); },
+    });
+}
+
+
+/**
+ * 导出当前状态，浏览器里下载为json文件，其他平台输出到控制台
+ * 附到bug报告里，用loadClientDump离线复现
+ */
+export function saveClientDump(): void {
+    let json = ClientStore.getInstance().exportDump();
+    if (typeof document == "undefined") {
+        console.log("client dump:", json);
+        return;
+    }
+
+    let url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+    let link = document.createElement("a");
+    link.href = url;
+    link.download = "client_dump_" + Date.now() + ".json";
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * 用导出的状态离线进入地图，不需要连接服务器
+ * 地图格子上的城池、建筑要等地图场景初始化完(LogicEvent.mapReady)再恢复，恢复后定位到导出时的中心点
+ */
+export function loadClientDump(data: ClientDump | string): boolean {
+    let dump: ClientDump = typeof data == "string" ? JSON.parse(data) : data;
+    let store = ClientStore.getInstance();
+    if (!store.restore(dump)) {
+        return false;
+    }
+
+    let target = {};
+    EventMgr.once(LogicEvent.mapReady, () => {
+        //武将配置在进地图加载资源后才初始化，此时已经加载完，重新恢复一次关联配置
+        store.restore(dump, ["general"]);
+
+        let cityProxy = MapCommand.getInstance().cityProxy;
+        let buildProxy = MapCommand.getInstance().buildProxy;
+        let mapUIProxy = MapUICommand.getInstance().proxy;
+        if (dump.slices.city) {
+            cityProxy.restoreMapCitys(dump.slices.city.mapCitys);
+        }
+        if (dump.slices.build) {
+            buildProxy.restoreMapBuilds(dump.slices.build.mapBuilds);
+        }
+        cityProxy.getMyCitys().forEach((city) => {
+            mapUIProxy.updateMyCityAdditions(city.cityId);
+        });
+
+        let map = dump.slices.map;
+        if (map && map.centerPoint) {
+            EventMgr.emit(LogicEvent.scrollToMap, map.centerPoint.x, map.centerPoint.y);
+        }
+    }, target);
+    EventMgr.emit(LogicEvent.enterMap);
+    return true;
+}
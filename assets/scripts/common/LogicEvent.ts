@@ -1,86 +1,189 @@
+import { Node, Vec2 } from "cc";
+import { ServerCollect, ServerGeneral, ServerProtocol, ServerUnion, ServerUnionApply, ServerUnionLog, ServerUnionMember } from "../config/ServerProtocol";
+import { ArmyData } from "../general/ArmyProxy";
+import { GeneralConfig, GeneralData } from "../general/GeneralProxy";
+import { MapBuildData } from "../map/MapBuildProxy";
+import { MapCityData } from "../map/MapCityProxy";
+import { CityAddition, Facility, WarReport } from "../map/ui/MapUIProxy";
+import { Skill } from "../skill/SkillProxy";
+import { Member, Union } from "../union/UnionProxy";
 
-
+// 事件名用readonly常量，类型是字面量，EventMgr才能按名字检查参数
 export class LogicEvent {
 
-    public static robLoginUI:string = "robLoginUI";
-    public static enterMap:string = "enter_map";
-    public static enterLogin:string = "enter_login";
-    public static showToast:string = "show_toast";
-    public static showWaiting:string = "show_waiting";
-    public static hideWaiting:string = "hide_waiting";
-    public static showTip:string = "show_tip";
+    public static readonly robLoginUI = "robLoginUI";
+    public static readonly enterMap = "enter_map";
+    public static readonly enterLogin = "enter_login";
+    public static readonly showToast = "show_toast";
+    public static readonly showWaiting = "show_waiting";
+    public static readonly hideWaiting = "hide_waiting";
+    public static readonly showTip = "show_tip";
+    public static readonly updateLatency = "update_latency";
+    public static readonly toggleNetDebug = "toggle_net_debug";
 
-    public static createRole:string = "createRole";
-    public static enterServerComplete:string = "enterServerComplete";
-    public static loginComplete:string = "login_complete";
+    public static readonly createRole = "createRole";
+    public static readonly enterServerComplete = "enterServerComplete";
+    public static readonly loginComplete = "login_complete";
 
 
-    public static touchMap:string = "touch_map";
-    public static moveMap:string = "move_map";
-    public static beforeScrollToMap:string = "before_scroll_to_map";
-    public static mapEenterChange:string = "map_center_change";
-    public static scrollToMap:string = "scroll_to_map";
-    public static mapShowAreaChange:string = "map_show_area_change";
+    public static readonly touchMap = "touch_map";
+    public static readonly moveMap = "move_map";
+    public static readonly beforeScrollToMap = "before_scroll_to_map";
+    public static readonly mapEenterChange = "map_center_change";
+    public static readonly scrollToMap = "scroll_to_map";
+    public static readonly mapShowAreaChange = "map_show_area_change";
+    public static readonly mapReady = "map_ready";      //地图场景初始化完成，各层已经在监听数据变化
 
-    public static updateArmy:string = "update_army";
-    public static updateArmyList:string = "update_army_list";
-    public static updateTag:string = "update_tag";
-    public static updateBuilds:string = "update_builds";
-    public static updateBuild:string = "update_build";
-    public static deleteBuild:string = "delete_build";
-    public static updateCitys:string = "update_citys";
-    public static updateCity:string = "update_city";
-    public static updateChatHistory:string = "update_chat_history";
-    public static unionChange:string = "union_change";
-    public static openCityAbout:string = "open_city_about";
-    public static closeCityAbout:string = "close_city_about";
-    public static openFortressAbout:string = "open_fortress_about";
-    public static openFacility:string = "open_facility";
-    public static openArmySetting:string = "open_army_setting";
-    public static upateMyRoleRes:string = "upate_my_roleRes";
-    public static openGeneralDes:string = "open_general_des";
-    public static openGeneralChoose:string = "open_general_choose";
-    public static openArmySelectUi:string = "open_army_select_ui";
-    public static openDrawResult:string = "open_draw_result";
-    public static interiorCollect:string = "interior_collect";
-    public static interiorOpenCollect:string = "interior_openCollect";
-    public static openGeneralConvert:string = "open_general_convert";
-    public static openGeneralRoster:string = "open_general_roster";
-    public static openGeneral:string = "open_general";
-    public static openSkill:string = "open_skill";
-    public static closeSkill:string = "close_skill";
-    public static openSkillInfo:string = "open_skillInfo";
-    public static closeArmyAelectUi:string = "close_army_select_ui";
-    public static updateCityAddition:string = "update_city_addition";
-    public static updateMyFacility:string = "update_my_facility";
-    public static updateMyFacilities:string = "update_my_facilities";
-    public static selectFacilityItem:string = "select_facility_item";
-    public static openGeneralSelect:string = "open_general_select";
-    public static openArmyConscript:string = "open_army_conscript";
-    public static chosedGeneral:string = "chosed_general";
-    public static generalConvert:string = "general_convert";
-    public static updateMyGenerals:string = "update_my_generals";
-    public static updateOneGenerals:string = "update_one_generals";
-    public static updateGeneral:string = "update_general";
-    public static skillListInfo:string = "skill_list_info";
-    public static closeUnion:string = "close_union";
-    public static openMyUnion:string = "open_my_union";
-    public static dismissUnionSuccess:string = "dismiss_union_success";
-    public static createUnionSuccess:string = "create_union_success";
-    public static updateUnionApply:string = "update_union_apply";
-    public static unionInfo:string = "union_info";
-    public static unionNotice:string = "union_notice";
-    public static unionLog:string = "union_log";
-    public static upateWarReport:string = "upate_war_report";
-    public static clickWarReport:string = "click_war_report";
-    public static closeReport:string = "close_report";
-    public static verifyUnionSuccess:string = "verify_union_success";
-    public static kickUnionSuccess:string = "kick_union_success";
-    public static unionAppoint:string = "union_appoint";
-    public static updateUnionMember:string = "update_union_member";
-    public static unionAbdicate:string = "union_abdicate";
-    public static clickUnionMemberItem:string = "clickUnionMemberItem";
-    public static updateUnionList:string = "update_union_list";
+    public static readonly updateArmy = "update_army";
+    public static readonly updateArmyList = "update_army_list";
+    public static readonly updateTag = "update_tag";
+    public static readonly updateBuilds = "update_builds";
+    public static readonly updateBuild = "update_build";
+    public static readonly deleteBuild = "delete_build";
+    public static readonly updateCitys = "update_citys";
+    public static readonly updateCity = "update_city";
+    public static readonly updateChatHistory = "update_chat_history";
+    public static readonly unionChange = "union_change";
+    public static readonly openCityAbout = "open_city_about";
+    public static readonly closeCityAbout = "close_city_about";
+    public static readonly openFortressAbout = "open_fortress_about";
+    public static readonly openFacility = "open_facility";
+    public static readonly openArmySetting = "open_army_setting";
+    public static readonly upateMyRoleRes = "upate_my_roleRes";
+    public static readonly openGeneralDes = "open_general_des";
+    public static readonly openGeneralChoose = "open_general_choose";
+    public static readonly openArmySelectUi = "open_army_select_ui";
+    public static readonly openDrawResult = "open_draw_result";
+    public static readonly interiorCollect = "interior_collect";
+    public static readonly interiorOpenCollect = "interior_openCollect";
+    public static readonly openGeneralConvert = "open_general_convert";
+    public static readonly openGeneralRoster = "open_general_roster";
+    public static readonly openGeneral = "open_general";
+    public static readonly openSkill = "open_skill";
+    public static readonly closeSkill = "close_skill";
+    public static readonly openSkillInfo = "open_skillInfo";
+    public static readonly closeArmyAelectUi = "close_army_select_ui";
+    public static readonly updateCityAddition = "update_city_addition";
+    public static readonly updateMyFacility = "update_my_facility";
+    public static readonly updateMyFacilities = "update_my_facilities";
+    public static readonly selectFacilityItem = "select_facility_item";
+    public static readonly openGeneralSelect = "open_general_select";
+    public static readonly openArmyConscript = "open_army_conscript";
+    public static readonly chosedGeneral = "chosed_general";
+    public static readonly generalConvert = "general_convert";
+    public static readonly updateMyGenerals = "update_my_generals";
+    public static readonly updateOneGenerals = "update_one_generals";
+    public static readonly updateGeneral = "update_general";
+    public static readonly skillListInfo = "skill_list_info";
+    public static readonly closeUnion = "close_union";
+    public static readonly openMyUnion = "open_my_union";
+    public static readonly dismissUnionSuccess = "dismiss_union_success";
+    public static readonly createUnionSuccess = "create_union_success";
+    public static readonly updateUnionApply = "update_union_apply";
+    public static readonly unionInfo = "union_info";
+    public static readonly unionNotice = "union_notice";
+    public static readonly unionLog = "union_log";
+    public static readonly upateWarReport = "upate_war_report";
+    public static readonly clickWarReport = "click_war_report";
+    public static readonly closeReport = "close_report";
+    public static readonly verifyUnionSuccess = "verify_union_success";
+    public static readonly kickUnionSuccess = "kick_union_success";
+    public static readonly unionAppoint = "union_appoint";
+    public static readonly updateUnionMember = "update_union_member";
+    public static readonly unionAbdicate = "union_abdicate";
+    public static readonly clickUnionMemberItem = "clickUnionMemberItem";
+    public static readonly updateUnionList = "update_union_list";
    
     
-}
\ No newline at end of file
+}
+
+
+/**
+ * 逻辑事件参数
+ * 新增事件时在这里登记参数，EventMgr.on/emit会检查参数个数和类型
+ */
+declare module "../utils/EventMgr" {
+    interface EventMap {
+        [LogicEvent.robLoginUI]: [];
+        [LogicEvent.enterMap]: [];
+        [LogicEvent.enterLogin]: [];
+        [LogicEvent.showToast]: [msg: string];
+        [LogicEvent.showWaiting]: [];
+        [LogicEvent.hideWaiting]: [];
+        [LogicEvent.showTip]: [text: string, close: Function];
+        [LogicEvent.updateLatency]: [latency: number, clockSkew: number];
+        [LogicEvent.toggleNetDebug]: [];
+
+        [LogicEvent.createRole]: [];
+        [LogicEvent.enterServerComplete]: [];
+        [LogicEvent.loginComplete]: [code: number];
+
+        [LogicEvent.touchMap]: [mapPoint: Vec2, clickPixelPoint: Vec2];
+        [LogicEvent.moveMap]: [];
+        [LogicEvent.beforeScrollToMap]: [x: number, y: number, oldx: number, oldy: number];
+        [LogicEvent.mapEenterChange]: [centerPoint: Vec2];
+        [LogicEvent.scrollToMap]: [x: number, y: number];
+        [LogicEvent.mapShowAreaChange]: [centerPoint: Vec2, centerAreaId: number, addIds: number[], removeIds: number[]];
+        [LogicEvent.mapReady]: [];
+
+        [LogicEvent.updateArmy]: [armyData: ArmyData];
+        [LogicEvent.updateArmyList]: [armyDatas: ArmyData[]];
+        [LogicEvent.updateTag]: [];
+        [LogicEvent.updateBuilds]: [areaId: number, addIds: number[], removeIds: number[], updateIds: number[]];
+        [LogicEvent.updateBuild]: [buildData: MapBuildData];
+        [LogicEvent.deleteBuild]: [id: number, x: number, y: number];
+        [LogicEvent.updateCitys]: [areaId: number, addIds: number[], removeIds: number[], updateIds: number[]];
+        [LogicEvent.updateCity]: [city: MapCityData];
+        [LogicEvent.updateChatHistory]: [];
+        [LogicEvent.unionChange]: [rid: number, unionId: number, parentId: number];
+        [LogicEvent.openCityAbout]: [city: MapCityData];
+        [LogicEvent.closeCityAbout]: [city: MapCityData];
+        [LogicEvent.openFortressAbout]: [build: MapBuildData];
+        [LogicEvent.openFacility]: [city: MapCityData];
+        [LogicEvent.openArmySetting]: [cityId: number, order: number];
+        [LogicEvent.upateMyRoleRes]: [];
+        [LogicEvent.openGeneralDes]: [cfg: GeneralConfig, curData: GeneralData];
+        [LogicEvent.openGeneralChoose]: [generalIds: number[], position: number];
+        [LogicEvent.openArmySelectUi]: [cmd: number, x: number, y: number];
+        [LogicEvent.openDrawResult]: [generals: ServerGeneral[]];
+        [LogicEvent.interiorCollect]: [msg: ServerCollect];
+        [LogicEvent.interiorOpenCollect]: [msg: ServerCollect];
+        [LogicEvent.openGeneralConvert]: [];
+        [LogicEvent.openGeneralRoster]: [];
+        [LogicEvent.openGeneral]: [generalIds?: number[], type?: number, position?: number];
+        [LogicEvent.openSkill]: [type: number, general: GeneralData, skillPos: number];
+        [LogicEvent.closeSkill]: [];
+        [LogicEvent.openSkillInfo]: [cfg: Skill, type: number, general: GeneralData, skillPos: number];
+        [LogicEvent.closeArmyAelectUi]: [];
+        [LogicEvent.updateCityAddition]: [cityId: number, addition: CityAddition];
+        [LogicEvent.updateMyFacility]: [cityId: number, facility: Facility];
+        [LogicEvent.updateMyFacilities]: [];
+        [LogicEvent.selectFacilityItem]: [cityId: number, type: number];
+        [LogicEvent.openGeneralSelect]: [cfg: GeneralConfig, curData: GeneralData, node: Node];
+        [LogicEvent.openArmyConscript]: [order: number, city: MapCityData];
+        [LogicEvent.chosedGeneral]: [cfg: GeneralConfig, curData: GeneralData, position: number];
+        [LogicEvent.generalConvert]: [msg: ServerProtocol["general.convert"]["rsp"]];
+        [LogicEvent.updateMyGenerals]: [];
+        [LogicEvent.updateOneGenerals]: [general: ServerGeneral];
+        [LogicEvent.updateGeneral]: [];
+        [LogicEvent.skillListInfo]: [];
+        [LogicEvent.closeUnion]: [];
+        [LogicEvent.openMyUnion]: [union: Union];
+        [LogicEvent.dismissUnionSuccess]: [];
+        [LogicEvent.createUnionSuccess]: [];
+        [LogicEvent.updateUnionApply]: [applys: ServerUnionApply[] | ServerUnionApply];
+        [LogicEvent.unionInfo]: [msg: ServerProtocol["union.info"]["rsp"]];
+        [LogicEvent.unionNotice]: [msg: ServerProtocol["union.modNotice"]["rsp"]];
+        [LogicEvent.unionLog]: [logs: ServerUnionLog[]];
+        [LogicEvent.upateWarReport]: [];
+        [LogicEvent.clickWarReport]: [report: WarReport];
+        [LogicEvent.closeReport]: [];
+        [LogicEvent.verifyUnionSuccess]: [];
+        [LogicEvent.kickUnionSuccess]: [];
+        [LogicEvent.unionAppoint]: [msg: ServerProtocol["union.appoint"]["rsp"]];
+        [LogicEvent.updateUnionMember]: [members: ServerUnionMember[]];
+        [LogicEvent.unionAbdicate]: [msg: ServerProtocol["union.abdicate"]["rsp"]];
+        [LogicEvent.clickUnionMemberItem]: [member: Member];
+        [LogicEvent.updateUnionList]: [unions: ServerUnion[]];
+    }
+}
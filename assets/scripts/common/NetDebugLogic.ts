@@ -0,0 +1,69 @@
+import { _decorator, Component, Node, Label, UITransform, Graphics, Widget, Color, Layers } from 'cc';
+import { NetDiagnostics } from '../network/NetDiagnostics';
+const { ccclass } = _decorator;
+
+/**
+ * 网络诊断浮层，由Main创建，不需要prefab
+ * 显示NetDiagnostics.getReport()，每0.5秒刷新
+ */
+@ccclass('NetDebugLogic')
+export default class NetDebugLogic extends Component {
+    protected _label: Label = null;
+    protected _bg: Graphics = null;
+    protected _width: number = 560;
+
+    protected onLoad(): void {
+        this.node.layer = Layers.Enum.UI_2D;
+        let transform = this.node.addComponent(UITransform);
+        transform.setAnchorPoint(0, 1);
+        transform.setContentSize(this._width, 100);
+
+        let widget = this.node.addComponent(Widget);
+        widget.isAlignTop = true;
+        widget.isAlignLeft = true;
+        widget.top = 10;
+        widget.left = 10;
+
+        this._bg = this.node.addComponent(Graphics);
+
+        let labelNode = new Node("label");
+        labelNode.layer = Layers.Enum.UI_2D;
+        labelNode.parent = this.node;
+        let labelTransform = labelNode.addComponent(UITransform);
+        labelTransform.setAnchorPoint(0, 1);
+        labelTransform.setContentSize(this._width - 20, 100);
+        labelNode.setPosition(10, -10);
+
+        this._label = labelNode.addComponent(Label);
+        this._label.fontSize = 18;
+        this._label.lineHeight = 22;
+        this._label.color = new Color(120, 255, 120, 255);
+        this._label.horizontalAlign = Label.HorizontalAlign.LEFT;
+        this._label.verticalAlign = Label.VerticalAlign.TOP;
+        this._label.overflow = Label.Overflow.RESIZE_HEIGHT;
+    }
+
+    protected onEnable(): void {
+        NetDiagnostics.getInstance().start();
+        this.updateView();
+        this.schedule(this.updateView, 0.5);
+    }
+
+    //浮层关闭后不再统计
+    protected onDisable(): void {
+        this.unschedule(this.updateView);
+        NetDiagnostics.getInstance().stop();
+    }
+
+    protected updateView(): void {
+        this._label.string = NetDiagnostics.getInstance().getReport();
+
+        //背景跟随文字高度，文字高度下一帧才更新，慢一次刷新不影响
+        let height = this._label.node.getComponent(UITransform).height + 20;
+        this.node.getComponent(UITransform).setContentSize(this._width, height);
+        this._bg.clear();
+        this._bg.fillColor = new Color(0, 0, 0, 180);
+        this._bg.rect(0, -height, this._width, height);
+        this._bg.fill();
+    }
+}
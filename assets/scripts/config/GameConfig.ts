@@ -2,7 +2,16 @@
 
 import { _decorator } from "cc";
 const GameConfig = {
-  serverUrl: "ws://localhost:8004",
-  webUrl: "http://localhost:8088",
+  //网关列表，连接前探测，断线重连失败后切换到下一条
+  serverList: [
+    { name: "本地", serverUrl: "ws://localhost:8004", chatServerUrl: "ws://localhost:8002", webUrl: "http://localhost:8088", weight: 1 },
+  ],
+  mockServer: false,    //使用本地模拟服务器，不需要启动slgserver
+  netCodec: "",         //消息编码 json、msgpack，需要服务器支持，为空使用旧协议
+  netDebug: false,      //启动时打开网络诊断浮层，也可以按F9或派发LogicEvent.toggleNetDebug开关
+  netRecord: false,     //启动时开始录制网络会话，也可以按F8开始录制，再按一次停止并保存
+  eventTrace: false,    //记录事件时间线，按F10在控制台输出JSON
+  clientDump: "",       //resources下导出的状态文件(不含扩展名)，设置后不连接服务器，直接离线进入地图；按F11导出当前状态
+  netCipher: 1,         //加密版本 0旧版，1每条消息随机IV并校验，服务器不支持时自动使用旧版
 };
 export { GameConfig };
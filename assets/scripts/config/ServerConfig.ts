@@ -1,7 +1,10 @@
 // /**服务器接口配置*/
 import { _decorator } from 'cc';
+import { NetPriority, NetRateLimit } from '../network/socket/NetScheduler';
 
 const ServerConfig = {
+    heartbeat: "heartbeat",
+
     account_login: "account.login",
     account_logout: "account.logout",
     account_reLogin: "account.reLogin",
@@ -84,7 +87,54 @@ const ServerConfig = {
     chat_join:"chat.join",
     chat_exit:"chat.exit",
     chat_push:"chat.push",
-}
+} as const;
+
+
+/**
+ * 幂等的查询接口
+ * 回包前再次发送相同的请求时，共用第一次请求的Promise，不再发给服务器
+ */
+const ServerCoalesceRoutes: string[] = [
+    ServerConfig.army_myOne,
+    ServerConfig.nationMap_scanBlock,
+    ServerConfig.city_facilities,
+    ServerConfig.role_myRoleRes,
+];
+
+
+/**
+ * 接口发送优先级，未配置的为Normal
+ * 重连后和排队时高优先级的先发
+ */
+const ServerRoutePriority: { [name: string]: NetPriority } = {
+    [ServerConfig.heartbeat]: NetPriority.High,
+    [ServerConfig.account_login]: NetPriority.High,
+    [ServerConfig.account_reLogin]: NetPriority.High,
+    [ServerConfig.role_enterServer]: NetPriority.High,
+    [ServerConfig.army_assign]: NetPriority.High,
+    [ServerConfig.army_dispose]: NetPriority.High,
+    [ServerConfig.army_conscript]: NetPriority.High,
+
+    [ServerConfig.nationMap_scanBlock]: NetPriority.Low,
+    [ServerConfig.role_upPosition]: NetPriority.Low,
+};
+
+
+/**接口限频，快速拖动地图时避免扫描请求堆积*/
+const ServerRateLimit: { [name: string]: NetRateLimit } = {
+    [ServerConfig.nationMap_scanBlock]: { count: 4, interval: 1000 },
+    [ServerConfig.role_upPosition]: { count: 1, interval: 1000 },
+};
+
+
+/**
+ * 接口超时(毫秒)，未配置的使用NetNode默认的10秒
+ * 心跳超时要短，尽早发现断线；抽卡等服务器处理慢的接口放宽
+ */
+const ServerRouteTimeout: { [name: string]: number } = {
+    [ServerConfig.heartbeat]: 5*1000,
+    [ServerConfig.general_drawGeneral]: 30*1000,
+};
 
 
-export { ServerConfig };
+export { ServerConfig, ServerCoalesceRoutes, ServerRoutePriority, ServerRateLimit, ServerRouteTimeout };
@@ -0,0 +1,347 @@
+/**
+ * 服务器协议定义：每条ServerConfig路由的请求与返回结构
+ */
+
+
+/**空消息体*/
+export interface ServerEmpty {
+}
+
+
+/**角色*/
+export interface ServerRole {
+    rid: number;
+    uid: number;
+    nickName: string;
+    sex: number;
+    sid: number;
+    balance: number;
+    headId: number;
+    profile: string;
+}
+
+/**角色资源*/
+export interface ServerRoleRes {
+    wood: number;
+    iron: number;
+    stone: number;
+    grain: number;
+    gold: number;
+    decree: number;
+    wood_yield: number;
+    iron_yield: number;
+    stone_yield: number;
+    grain_yield: number;
+    gold_yield: number;
+    depot_capacity: number;
+}
+
+/**城池*/
+export interface ServerMapCity {
+    cityId: number;
+    rid: number;
+    name: string;
+    x: number;
+    y: number;
+    is_main: number;
+    level: number;
+    cur_durable: number;
+    max_durable: number;
+    union_id: number;
+    parent_id: number;
+    union_name: string;
+    occupy_time: number;
+}
+
+/**地图建筑和占领*/
+export interface ServerMapBuild {
+    rid: number;
+    RNick: string;
+    name: string;
+    x: number;
+    y: number;
+    type: number;
+    level: number;
+    op_level: number;
+    cur_durable: number;
+    max_durable: number;
+    defender: number;
+    union_id: number;
+    parent_id: number;
+    union_name: string;
+    occupy_time: number;
+    giveUp_time: number;
+    end_time: number;
+}
+
+/**地图建筑基础配置*/
+export interface ServerNationMapConfig {
+    type: number;
+    level: number;
+    name: string;
+    wood: number;
+    iron: number;
+    stone: number;
+    grain: number;
+    durable: number;
+    defender: number;
+}
+
+/**位置标记*/
+export interface ServerPosTag {
+    x: number;
+    y: number;
+    name: string;
+}
+
+/**军队*/
+export interface ServerArmy {
+    id: number;
+    cityId: number;
+    order: number;
+    generals: number[];
+    soldiers: number[];
+    con_times: number[];
+    con_cnts: number[];
+    state: number;
+    cmd: number;
+    from_x: number;
+    from_y: number;
+    to_x: number;
+    to_y: number;
+    start: number;
+    end: number;
+}
+
+/**武将技能*/
+export interface ServerGeneralSkill {
+    id: number;
+    lv: number;
+    cfgId: number;
+}
+
+/**武将*/
+export interface ServerGeneral {
+    id: number;
+    cfgId: number;
+    exp: number;
+    level: number;
+    order: number;
+    physical_power: number;
+    star_lv: number;
+    parentId: number;
+    state: number;
+    hasPrPoint: number;
+    usePrPoint: number;
+    force_added: number;
+    strategy_added: number;
+    defense_added: number;
+    speed_added: number;
+    destroy_added: number;
+    skills: ServerGeneralSkill[];
+}
+
+/**技能*/
+export interface ServerSkill {
+    id: number;
+    cfgId: number;
+    generals: number[];
+}
+
+/**设施*/
+export interface ServerFacility {
+    type: number;
+    level: number;
+    up_time: number;
+}
+
+/**战报*/
+export interface ServerWarReport {
+    id: number;
+    a_rid: number;
+    d_rid: number;
+    b_a_army: string;
+    b_d_army: string;
+    e_a_army: string;
+    e_d_army: string;
+    b_a_general: string;
+    b_d_general: string;
+    e_a_general: string;
+    e_d_general: string;
+    rounds: string;
+    result: number;
+    a_is_read: boolean;
+    d_is_read: boolean;
+    destroy: number;
+    occupy: number;
+    x: number;
+    y: number;
+    ctime: number;
+}
+
+/**征收*/
+export interface ServerCollect {
+    gold: number;
+    limit: number;
+    cur_times: number;
+    next_time: number;
+}
+
+/**联盟成员*/
+export interface ServerUnionMember {
+    rid: number;
+    name: string;
+    title: number;
+    x: number;
+    y: number;
+}
+
+/**联盟*/
+export interface ServerUnion {
+    id: number;
+    name: string;
+    cnt: number;
+    notice: string;
+    major: ServerUnionMember[];
+}
+
+/**联盟申请*/
+export interface ServerUnionApply {
+    id: number;
+    rid: number;
+    nick_name: string;
+}
+
+/**联盟日志*/
+export interface ServerUnionLog {
+    op_rid: number;
+    target_id: number;
+    state: number;
+    des: string;
+    ctime: number;
+}
+
+/**聊天消息*/
+export interface ServerChatMsg {
+    rid: number;
+    nick_name: string;
+    type: number;
+    msg: string;
+    time: number;
+}
+
+
+/**
+ * 路由表
+ * key为ServerConfig中的接口名，req为发送的msg，rsp为返回的msg
+ * 推送接口没有请求，req为null
+ */
+export interface ServerProtocol {
+    "heartbeat": { req: { ctime: number }, rsp: { ctime: number, stime: number } };
+
+    "account.login": { req: { username: string, password: string, hardware: string }, rsp: { uid: number, username: string, session: string } };
+    "account.logout": { req: ServerEmpty, rsp: ServerEmpty };
+    "account.reLogin": { req: { session: string, hardware: string }, rsp: { session: string } };
+    "robLogin": { req: null, rsp: ServerEmpty };
+
+    "role.create": { req: { uid: string, nickName: string, sex: number, sid: number, headId: number }, rsp: { role: ServerRole } };
+    "role.roleList": { req: { sid: number }, rsp: { roles: ServerRole[] } };
+    "role.enterServer": { req: { session: string }, rsp: { role: ServerRole, role_res: ServerRoleRes, time: number, token: string } };
+    "role.myCity": { req: ServerEmpty, rsp: { citys: ServerMapCity[] } };
+    "role.myRoleRes": { req: ServerEmpty, rsp: { role_res: ServerRoleRes } };
+    "role.myProperty": { req: ServerEmpty, rsp: { role_res: ServerRoleRes, citys: ServerMapCity[], generals: ServerGeneral[], armys: ServerArmy[], mr_builds: ServerMapBuild[] } };
+    "role.upPosition": { req: { x: number, y: number }, rsp: { x: number, y: number } };
+    "role.posTagList": { req: ServerEmpty, rsp: { pos_tags: ServerPosTag[] } };
+    "role.opPosTag": { req: { type: number, x: number, y: number, name: string }, rsp: { type: number, x: number, y: number, name: string } };
+
+    "nationMap.config": { req: ServerEmpty, rsp: { Confs: ServerNationMapConfig[] } };
+    "nationMap.scanBlock": { req: { x: number, y: number, length: number }, rsp: { mc_builds: ServerMapCity[], mr_builds: ServerMapBuild[], armys: ServerArmy[] } };
+    "nationMap.giveUp": { req: { x: number, y: number }, rsp: { x: number, y: number } };
+    "nationMap.build": { req: { x: number, y: number, type: number }, rsp: { x: number, y: number, type: number } };
+    "nationMap.upBuild": { req: { x: number, y: number }, rsp: { x: number, y: number, build: ServerMapBuild } };
+    "nationMap.delBuild": { req: { x: number, y: number }, rsp: { x: number, y: number } };
+
+    "city.facilities": { req: { cityId: number }, rsp: { cityId: number, facilities: ServerFacility[] } };
+    "city.upFacility": { req: { cityId: number, fType: number }, rsp: { cityId: number, facility: ServerFacility, role_res: ServerRoleRes } };
+
+    "general.myGenerals": { req: ServerEmpty, rsp: { generals: ServerGeneral[] } };
+    "general.drawGeneral": { req: { drawTimes: number }, rsp: { generals: ServerGeneral[] } };
+    "general.composeGeneral": { req: { compId: number, gIds: number[] }, rsp: { generals: ServerGeneral[] } };
+    "general.addPrGeneral": { req: { compId: number, forceAdd: number, strategyAdd: number, defenseAdd: number, speedAdd: number, destroyAdd: number }, rsp: { general: ServerGeneral } };
+    "general.convert": { req: { gIds: number[] }, rsp: { gIds: number[], gold: number, add_gold: number } };
+    "general.upSkill": { req: { gId: number, cfgId: number, pos: number }, rsp: { gId: number, cfgId: number, pos: number } };
+    "general.downSkill": { req: { gId: number, cfgId: number, pos: number }, rsp: { gId: number, cfgId: number, pos: number } };
+    "general.lvSkill": { req: { gId: number, pos: number }, rsp: { gId: number, pos: number } };
+
+    "army.myList": { req: { cityId: number }, rsp: { cityId: number, armys: ServerArmy[] } };
+    "army.myOne": { req: { cityId: number, order: number }, rsp: { army: ServerArmy } };
+    "army.dispose": { req: { cityId: number, generalId: number, order: number, position: number }, rsp: { army: ServerArmy } };
+    "army.conscript": { req: { armyId: number, cnts: number[] }, rsp: { army: ServerArmy, role_res: ServerRoleRes } };
+    "army.assign": { req: { armyId: number, cmd: number, x: number, y: number }, rsp: { army: ServerArmy } };
+
+    "war.report": { req: ServerEmpty, rsp: { list: ServerWarReport[] } };
+    "war.read": { req: { id: number }, rsp: { id: number } };
+
+    "union.create": { req: { name: string }, rsp: { id: number, name: string } };
+    "union.join": { req: { id: number }, rsp: ServerEmpty };
+    "union.list": { req: ServerEmpty, rsp: { list: ServerUnion[] } };
+    "union.member": { req: { id: number }, rsp: { id: number, Members: ServerUnionMember[] } };
+    "union.applyList": { req: { id: number }, rsp: { id: number, applys: ServerUnionApply[] } };
+    "union.dismiss": { req: ServerEmpty, rsp: ServerEmpty };
+    "union.verify": { req: { id: number, decide: number }, rsp: { id: number, decide: number } };
+    "union.exit": { req: ServerEmpty, rsp: ServerEmpty };
+    "union.kick": { req: { rid: number }, rsp: { rid: number } };
+    "union.appoint": { req: { rid: number, title: number }, rsp: { rid: number, title: number } };
+    "union.abdicate": { req: { rid: number }, rsp: { rid: number } };
+    "union.modNotice": { req: { text: string }, rsp: { id: number, text: string } };
+    "union.info": { req: { id: number }, rsp: { id: number, info: ServerUnion } };
+    "union.log": { req: ServerEmpty, rsp: { logs: ServerUnionLog[] } };
+
+    "interior.collect": { req: ServerEmpty, rsp: ServerCollect };
+    "interior.openCollect": { req: ServerEmpty, rsp: ServerCollect };
+    "interior.transform": { req: { from: number[], to: number[] }, rsp: ServerEmpty };
+
+    "skill.list": { req: ServerEmpty, rsp: { list: ServerSkill[] } };
+
+    "chat.login": { req: { rid: number, token: string, nickName: string }, rsp: { rid: number, nickName: string } };
+    "chat.chat": { req: { msg: string, type: number }, rsp: ServerChatMsg };
+    "chat.history": { req: { type: number }, rsp: { type: number, msgs: ServerChatMsg[] } };
+    "chat.join": { req: { type: number, id: number }, rsp: { type: number, id: number } };
+    "chat.exit": { req: { type: number, id: number }, rsp: { type: number, id: number } };
+
+    //推送
+    "unionApply.push": { req: null, rsp: ServerUnionApply };
+    "warReport.push": { req: null, rsp: ServerWarReport };
+    "general.push": { req: null, rsp: ServerGeneral };
+    "army.push": { req: null, rsp: ServerArmy };
+    "roleBuild.push": { req: null, rsp: ServerMapBuild };
+    "roleCity.push": { req: null, rsp: ServerMapCity };
+    "facility.push": { req: null, rsp: ServerFacility };
+    "roleRes.push": { req: null, rsp: ServerRoleRes };
+    "skill.push": { req: null, rsp: ServerSkill };
+    "chat.push": { req: null, rsp: ServerChatMsg };
+}
+
+
+export type ServerRoute = keyof ServerProtocol;
+
+/**发送给服务器的数据包*/
+export interface ServerRequest<K extends ServerRoute = ServerRoute> {
+    name: K;
+    msg: ServerProtocol[K]["req"];
+    seq?: number;
+}
+
+/**服务器返回（或推送）的数据包*/
+export interface ServerResponse<K extends ServerRoute = ServerRoute> {
+    name: K;
+    seq: number;
+    code: number;
+    msg: ServerProtocol[K]["rsp"];
+}
+
+/**NetManager.send 的返回结果*/
+export interface ServerResult<K extends ServerRoute = ServerRoute> {
+    req: ServerRequest<K>;
+    rsp: ServerResponse<K>;
+}
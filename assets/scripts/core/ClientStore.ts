@@ -0,0 +1,309 @@
+import { EventMgr } from '../utils/EventMgr';
+import { CoreEvent } from './CoreEvent';
+
+
+// 整个客户端状态的快照，key为StoreSlice.name
+export interface ClientState {
+    readonly [name: string]: any;
+}
+
+/**
+ * 一块状态，对应一个proxy
+ * 调用mutators里的方法后自动标记变化，不需要手动派发事件
+ */
+export interface StoreSlice<P = any> {
+    name: string,
+    proxyClass: { prototype: P },               // proxy类，在原型上拦截mutators，重建proxy后依然有效
+    getProxy: () => P,                          // 当前使用的proxy
+    mutators: string[],                         // 会修改数据的方法
+    select: (proxy: P) => any,                  // 取出要放进快照的数据
+    deps?: string[],                            // select里读取的其他slice，它们变化时一起重新生成
+    dump?: (proxy: P) => any,                   // 导出完整数据，用于bug报告
+    restore?: (proxy: P, data: any) => void,    // 用导出的数据恢复proxy，不需要服务器
+}
+
+// 导出的完整状态
+export interface ClientDump {
+    version: number,
+    time: number,
+    slices: { [name: string]: any },
+}
+
+// 选择器订阅
+interface StoreSubscription {
+    selector: (state: ClientState) => any,
+    callback: (value: any, oldValue: any) => void,
+    target: object,
+    value: any,
+}
+
+
+/**
+ * 客户端状态仓库，包装各模块的proxy
+ * 快照是冻结的普通对象，Map转为对象；没有变化的部分沿用上次快照的引用，
+ * 订阅者用===判断选择的数据是否变化，只在变化时回调
+ * 同一帧内的多次修改合并为一次通知，同时派发CoreEvent.stateChange
+ * 直接改proxy字段(不经过mutators)的地方需要调用markDirty
+ */
+export class ClientStore {
+    private static _instance: ClientStore = null;
+    public static getInstance(): ClientStore {
+        if (this._instance == null) {
+            this._instance = new ClientStore();
+        }
+        return this._instance;
+    }
+
+    protected _slices: Map<string, StoreSlice> = new Map<string, StoreSlice>();
+    protected _sliceStates: Map<string, any> = new Map<string, any>();
+    protected _dirty: Set<string> = new Set<string>();              // 快照需要重新生成
+    protected _changed: Set<string> = new Set<string>();            // 还没通知的变化
+    protected _state: ClientState = null;
+    protected _subscriptions: StoreSubscription[] = [];
+    protected _flushing: boolean = false;           // 已经安排了通知
+
+    public static readonly dumpVersion: number = 1;
+
+    /**
+     * 登记一块状态，同名的会被替换
+     */
+    public register<P>(slice: StoreSlice<P>): void {
+        this._slices.set(slice.name, slice);
+        this.wrapMutators(slice);
+        this.markDirty(slice.name);
+    }
+
+    public getSlice(name: string): StoreSlice {
+        return this._slices.get(name);
+    }
+
+    public getSliceNames(): string[] {
+        return Array.from(this._slices.keys());
+    }
+
+    /**
+     * 标记状态有变化，下一次通知时重新生成
+     */
+    public markDirty(name: string): void {
+        if (!this._slices.has(name)) {
+            return;
+        }
+        this._dirty.add(name);
+        this._changed.add(name);
+        this._state = null;
+        this._slices.forEach((slice, other) => {
+            if (slice.deps && slice.deps.indexOf(name) >= 0 && !this._dirty.has(other)) {
+                this.markDirty(other);
+            }
+        });
+        this.scheduleFlush();
+    }
+
+    /**
+     * 当前状态的快照，只重新生成有变化的部分
+     */
+    public getState(): ClientState {
+        if (this._state != null && this._dirty.size == 0) {
+            return this._state;
+        }
+
+        let state = {};
+        this._slices.forEach((slice, name) => {
+            if (this._dirty.has(name) || !this._sliceStates.has(name)) {
+                let value = toSnapshot(slice.select(slice.getProxy()), this._sliceStates.get(name), []);
+                this._sliceStates.set(name, value);
+            }
+            state[name] = this._sliceStates.get(name);
+        });
+        this._dirty.clear();
+        this._state = Object.freeze(state);
+        return this._state;
+    }
+
+    /**
+     * 订阅选择的数据，变化时回调，注册时不回调
+     *     store.subscribe((state) => { return state.role.roleRes; }, this.onRoleResChange, this);
+     * @param selector 从快照里选择数据
+     * @param callback 参数为新值、旧值
+     */
+    public subscribe<T>(selector: (state: ClientState) => T, callback: (value: T, oldValue: T) => void, target: object): void {
+        this._subscriptions.push({
+            selector: selector,
+            callback: callback,
+            target: target,
+            value: selector(this.getState()),
+        });
+    }
+
+    public unsubscribe(callback: Function, target: object): void {
+        this._subscriptions = this._subscriptions.filter((sub) => {
+            return sub.callback != callback || sub.target != target;
+        });
+    }
+
+    public targetOff(target: object): void {
+        this._subscriptions = this._subscriptions.filter((sub) => {
+            return sub.target != target;
+        });
+    }
+
+    /**
+     * 立即通知有变化的订阅者，一般不需要调用，修改后会自动在微任务里通知
+     */
+    public flush(): void {
+        this._flushing = false;
+        if (this._changed.size == 0) {
+            return;
+        }
+
+        let names = Array.from(this._changed);
+        this._changed.clear();
+        //没有订阅者时不生成快照，等getState时再生成
+        if (this._subscriptions.length == 0) {
+            EventMgr.emit(CoreEvent.stateChange, names);
+            return;
+        }
+        let state = this.getState();
+        let list = this._subscriptions.concat();
+        for (let i = 0; i < list.length; i++) {
+            let sub = list[i];
+            if (this._subscriptions.indexOf(sub) < 0) {
+                continue;
+            }
+            let value = sub.selector(state);
+            if (value !== sub.value) {
+                let oldValue = sub.value;
+                sub.value = value;
+                sub.callback.call(sub.target, value, oldValue);
+            }
+        }
+        EventMgr.emit(CoreEvent.stateChange, names);
+    }
+
+    /**
+     * 导出所有带dump的slice，和快照不同，包含恢复所需的完整数据
+     */
+    public dump(): ClientDump {
+        let slices = {};
+        this._slices.forEach((slice, name) => {
+            if (slice.dump) {
+                slices[name] = slice.dump(slice.getProxy());
+            }
+        });
+        return { version: ClientStore.dumpVersion, time: Date.now(), slices: slices };
+    }
+
+    public exportDump(): string {
+        return JSON.stringify(this.dump());
+    }
+
+    /**
+     * 用导出的数据恢复proxy
+     * @param data dump()的结果或它的JSON
+     * @param names 只恢复这些slice，为空时恢复全部
+     * @returns 版本不对时返回false
+     */
+    public restore(data: ClientDump | string, names: string[] = null): boolean {
+        let dump: ClientDump = typeof data == "string" ? JSON.parse(data) : data;
+        if (dump == null || dump.version != ClientStore.dumpVersion || dump.slices == null) {
+            console.warn("ClientStore restore version not match:", dump ? dump.version : null);
+            return false;
+        }
+
+        this._slices.forEach((slice, name) => {
+            if (names != null && names.indexOf(name) < 0) {
+                return;
+            }
+            if (slice.restore && dump.slices[name] !== undefined) {
+                slice.restore(slice.getProxy(), dump.slices[name]);
+                this.markDirty(name);
+            }
+        });
+        return true;
+    }
+
+    protected scheduleFlush(): void {
+        if (this._flushing) {
+            return;
+        }
+        this._flushing = true;
+        Promise.resolve().then(() => {
+            if (this._flushing) {
+                this.flush();
+            }
+        });
+    }
+
+    //在原型上包装一次，之后同名slice重新登记时复用
+    protected wrapMutators(slice: StoreSlice): void {
+        let proto = slice.proxyClass.prototype;
+        for (let i = 0; i < slice.mutators.length; i++) {
+            let method = slice.mutators[i];
+            let func = proto[method];
+            if (typeof func != "function") {
+                console.warn("ClientStore mutator not found:", slice.name, method);
+                continue;
+            }
+            if (func.__storeSlice == slice.name) {
+                continue;
+            }
+
+            let store = this;
+            let name = slice.name;
+            let wrapped: any = function (...args: any[]) {
+                let result = func.apply(this, args);
+                store.markDirty(name);
+                return result;
+            };
+            wrapped.__storeSlice = name;
+            proto[method] = wrapped;
+        }
+    }
+}
+
+
+/**
+ * 转为冻结的普通数据
+ * 和old结构相同的部分直接返回old里的引用，函数、循环引用丢弃
+ */
+function toSnapshot(value: any, old: any, parents: any[]): any {
+    if (value === null || value === undefined || typeof value != "object") {
+        return typeof value == "function" ? undefined : value;
+    }
+    if (parents.indexOf(value) >= 0) {
+        return undefined;
+    }
+
+    parents.push(value);
+    let result: any;
+    if (Array.isArray(value)) {
+        let oldArray = Array.isArray(old) ? old : [];
+        result = value.map((item, i) => { return toSnapshot(item, oldArray[i], parents); });
+        if (Array.isArray(old) && old.length == result.length && result.every((item, i) => { return item === old[i]; })) {
+            result = old;
+        }
+    } else {
+        let source = value;
+        if (value instanceof Map) {
+            source = {};
+            value.forEach((item, key) => { source[key] = item; });
+        }
+
+        let oldObject = old != null && typeof old == "object" && !Array.isArray(old) ? old : {};
+        result = {};
+        let keys = Object.keys(source);
+        for (let i = 0; i < keys.length; i++) {
+            let item = toSnapshot(source[keys[i]], oldObject[keys[i]], parents);
+            if (item !== undefined) {
+                result[keys[i]] = item;
+            }
+        }
+        let resultKeys = Object.keys(result);
+        if (oldObject === old && Object.keys(old).length == resultKeys.length
+            && resultKeys.every((key) => { return result[key] === old[key]; })) {
+            result = old;
+        }
+    }
+    parents.pop();
+    return Object.freeze(result);
+}
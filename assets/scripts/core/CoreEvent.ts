@@ -2,7 +2,17 @@
 
 export class CoreEvent {
 
-    public static loadProgress:string = "load_progress";
-    public static loadComplete:string = "load_complete";
+    public static readonly loadProgress = "load_progress";
+    public static readonly loadComplete = "load_complete";
+    public static readonly stateChange = "state_change";
     
-}
\ No newline at end of file
+}
+
+
+declare module "../utils/EventMgr" {
+    interface EventMap {
+        [CoreEvent.loadProgress]: [percent: number];
+        [CoreEvent.loadComplete]: [];
+        [CoreEvent.stateChange]: [names: string[]];           // ClientStore中有变化的状态名
+    }
+}
@@ -1,5 +1,6 @@
 
 import { ServerConfig } from "../config/ServerConfig";
+import { ServerResponse } from "../config/ServerProtocol";
 import LoginCommand from "../login/LoginCommand";
 import { MapCityData } from "../map/MapCityProxy";
 import MapCommand from "../map/MapCommand";
@@ -77,7 +78,7 @@ export default class ArmyCommand {
     }
 
     /**军队列表回调*/
-    protected onQryArmyList(data: any, otherData: any): void {
+    protected onQryArmyList(data: ServerResponse<"army.myList">, otherData: any): void {
         console.log("onQryArmyList", data);
         if (data.code == 0) {
             let armyDatas: ArmyData[] = this._proxy.updateArmys(data.msg.cityId, data.msg.armys);
@@ -85,7 +86,7 @@ export default class ArmyCommand {
         }
     }
 
-    protected onQryArmyOne(data: any, otherData: any): void {
+    protected onQryArmyOne(data: ServerResponse<"army.myOne">, otherData: any): void {
         console.log("onQryArmyOne", data);
         if (data.code == 0) {
             let armyData = this._proxy.updateArmy(data.msg.army.cityId, data.msg.army);
@@ -98,7 +99,7 @@ export default class ArmyCommand {
     
 
     /**配置将领回调*/
-    protected onGeneralDispose(data: any, otherData: any): void {
+    protected onGeneralDispose(data: ServerResponse<"army.dispose">, otherData: any): void {
         console.log("onGeneralDispose", data);
         if (data.code == 0) {
             let armyData: ArmyData = this._proxy.updateArmy(data.msg.army.cityId, data.msg.army);
@@ -108,7 +109,7 @@ export default class ArmyCommand {
     }
 
     /**征兵回调*/
-    protected onGeneralConscript(data: any, otherData: any): void {
+    protected onGeneralConscript(data: ServerResponse<"army.conscript">, otherData: any): void {
         console.log("onGeneralConscript", data);
         if (data.code == 0) {
             LoginCommand.getInstance().proxy.saveEnterData(data.msg);
@@ -121,7 +122,7 @@ export default class ArmyCommand {
     }
 
     /**出征回调*/
-    protected onGeneralAssignArmy(data: any, otherData: any): void {
+    protected onGeneralAssignArmy(data: ServerResponse<"army.assign">, otherData: any): void {
         console.log("onGeneralAssignArmy", data);
         if (data.code == 0) {
             let armyData: ArmyData = this._proxy.updateArmy(data.msg.army.cityId, data.msg.army);
@@ -130,7 +131,7 @@ export default class ArmyCommand {
     }
 
     /**军队状态变更*/
-    protected onGeneralArmyStatePush(data: any): void {
+    protected onGeneralArmyStatePush(data: ServerResponse<"army.push">): void {
         console.log("onGeneralArmyState", data);
         if (data.code == 0) {
             let armyData: ArmyData = this._proxy.updateArmy(data.msg.cityId, data.msg);
@@ -138,7 +139,7 @@ export default class ArmyCommand {
         }
     }
 
-    protected onNationMapScanBlock(data: any): void {
+    protected onNationMapScanBlock(data: ServerResponse<"nationMap.scanBlock">): void {
         if (data.code == 0) {
             for (let i: number = 0; i < data.msg.armys.length; i++) {
                 let armyData: ArmyData = this._proxy.updateArmy(data.msg.armys[i].cityId, data.msg.armys[i]);
@@ -291,7 +292,7 @@ export default class ArmyCommand {
 
     /**请求自己的军队信息*/
     public qryArmyList(cityId: number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.army_myList,
             msg: {
                 cityId: cityId
@@ -301,7 +302,7 @@ export default class ArmyCommand {
     }
 
     public qryArmyOne(cityId: number, order: number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.army_myOne,
             msg: {
                 cityId: cityId,
@@ -313,7 +314,7 @@ export default class ArmyCommand {
 
     /**给军队配置将领*/
     public generalDispose(cityId: number = 0, generalId: number = 0, order: number = 0, position: number = 0, otherData: any): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.army_dispose,
             msg: {
                 cityId: cityId,
@@ -327,7 +328,7 @@ export default class ArmyCommand {
 
     /**给军队征兵*/
     public generalConscript(armyId: number = 0, cnts: number[] = [], otherData: any): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.army_conscript,
             msg: {
                 armyId: armyId,
@@ -338,8 +339,8 @@ export default class ArmyCommand {
     }
 
     /**出兵*/
-    public generalAssignArmy(armyId: number = 0, cmd: number = 0, x: number = 0, y: Number = 0, otherData: any = null): void {
-        let sendData: any = {
+    public generalAssignArmy(armyId: number = 0, cmd: number = 0, x: number = 0, y: number = 0, otherData: any = null): void {
+        let sendData = {
             name: ServerConfig.army_assign,
             msg: {
                 armyId: armyId,
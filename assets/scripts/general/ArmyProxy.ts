@@ -171,6 +171,23 @@ export default class ArmyProxy {
         return list;
     }
 
+    public dumpState(): any {
+        return { armys: this.getAllArmys().filter((army: ArmyData) => { return army != null; }) };
+    }
+
+    public restoreState(data: any): void {
+        this._armys.clear();
+        for (let i: number = 0; i < data.armys.length; i++) {
+            let armyData: ArmyData = Object.assign(new ArmyData(), data.armys[i]);
+            let list: ArmyData[] = this.getArmyList(armyData.cityId);
+            if (list == null) {
+                list = new Array(this._maxArmyCnt);
+                this._armys.set(armyData.cityId, list);
+            }
+            list[armyData.order - 1] = armyData;
+        }
+    }
+
     public getArmysByPos(x: number, y: number) {
         let list:ArmyData[] = [];
         this._armys.forEach((armys:ArmyData[]) => {
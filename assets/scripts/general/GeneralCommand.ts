@@ -1,4 +1,5 @@
 import { ServerConfig } from "../config/ServerConfig";
+import { ServerResponse } from "../config/ServerProtocol";
 import { NetManager } from "../network/socket/NetManager";
 import GeneralProxy from "./GeneralProxy";
 import { EventMgr } from "../utils/EventMgr";
@@ -53,7 +54,7 @@ export default class GeneralCommand {
     }
 
     /**我的将领列表*/
-    protected onMyGenerals(data: any): void {
+    protected onMyGenerals(data: ServerResponse<"general.myGenerals">): void {
         console.log("onMyGeneralsonMyGenerals ", data);
         if (data.code == 0) {
             this._proxy.updateMyGenerals(data.msg.generals);
@@ -61,7 +62,7 @@ export default class GeneralCommand {
         }
     }
 
-    protected onGeneralPush(data: any): void {
+    protected onGeneralPush(data: ServerResponse<"general.push">): void {
         console.log("onGeneralPush ", data);
         if (data.code == 0) {
             this._proxy.updateGeneral(data.msg);
@@ -69,7 +70,7 @@ export default class GeneralCommand {
         }
     }
 
-    protected onDrawGenerals(data: any): void {
+    protected onDrawGenerals(data: ServerResponse<"general.drawGeneral">): void {
         console.log("onDrawGenerals", data);
         if (data.code == 0) {
             this._proxy.updateMyGenerals(data.msg.generals);
@@ -79,7 +80,7 @@ export default class GeneralCommand {
         EventMgr.emit(LogicEvent.hideWaiting);
     }
 
-    protected onComposeGeneral(data:any):void{
+    protected onComposeGeneral(data:ServerResponse<"general.composeGeneral">):void{
         console.log("onComposeGeneral ", data);
         if (data.code == 0) {
             this._proxy.updateMyGenerals(data.msg.generals);
@@ -90,7 +91,7 @@ export default class GeneralCommand {
 
 
 
-    protected onAddPrGeneral(data:any):void{
+    protected onAddPrGeneral(data:ServerResponse<"general.addPrGeneral">):void{
         console.log("onAddPrGeneral ", data);
         if (data.code == 0) {
             this._proxy.updateGeneral(data.msg.general);
@@ -98,7 +99,7 @@ export default class GeneralCommand {
         }
     }
 
-    protected onGeneralConvert(data:any):void{
+    protected onGeneralConvert(data:ServerResponse<"general.convert">):void{
         console.log("onGeneralConvert ", data);
         if (data.code == 0) {
             this._proxy.removeMyGenerals(data.msg.gIds);
@@ -106,18 +107,18 @@ export default class GeneralCommand {
         }
     }
 
-    protected onUpSkill(data:any):void{
+    protected onUpSkill(data:ServerResponse<"general.upSkill">):void{
         console.log("onUpSkill ", data);
         
     }
 
     
-    protected onDownSkill(data:any):void{
+    protected onDownSkill(data:ServerResponse<"general.downSkill">):void{
         console.log("onDownSkill ", data);
        
     }
 
-    protected onLvSkill(data:any):void{
+    protected onLvSkill(data:ServerResponse<"general.lvSkill">):void{
         console.log("onLvSkill ", data);
     }
     
@@ -129,7 +130,7 @@ export default class GeneralCommand {
     }
 
     public qryMyGenerals(): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.general_myGenerals,
             msg: {
             }
@@ -143,7 +144,7 @@ export default class GeneralCommand {
      * @param drawTimes 
      */
     public drawGenerals(drawTimes:number = 1): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.general_drawGeneral,
             msg: {
                 drawTimes:drawTimes
@@ -160,7 +161,7 @@ export default class GeneralCommand {
      * @param gIds 
      */
     public composeGeneral(compId:number = 1,gIds:number[] = []): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.general_composeGeneral,
             msg: {
                 compId:compId,
@@ -172,7 +173,7 @@ export default class GeneralCommand {
 
 
     public addPrGeneral(compId:number = 1,force_add:number,strategy_add:number,defense_add:number,speed_add:number,destroy_add:number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.general_addPrGeneral,
             msg: {
                 compId:compId,
@@ -187,7 +188,7 @@ export default class GeneralCommand {
     }
 
     public convert(gIds:number[]): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.general_convert,
             msg: {
                 gIds:gIds
@@ -197,7 +198,7 @@ export default class GeneralCommand {
     }
 
     public upSkill(gId:number, cfgId:number, pos:number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.general_upSkill,
             msg: {
                 gId:gId,
@@ -211,7 +212,7 @@ export default class GeneralCommand {
     }
 
     public downSkill(gId:number, cfgId:number, pos:number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.general_downSkill,
             msg: {
                 gId:gId,
@@ -224,7 +225,7 @@ export default class GeneralCommand {
 
  
     public lvSkill(gId:number, pos:number) {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.general_lvSkill,
             msg: {
                 gId:gId,
@@ -225,6 +225,22 @@ export default class GeneralProxy {
         });
     }
 
+    public dumpState(): any {
+        return { myGenerals: this.getMyGenerals() };
+    }
+
+    /**恢复我的武将，配置已加载时使用本地配置，否则使用导出时的配置*/
+    public restoreState(data: any): void {
+        this._myGenerals.clear();
+        for (let i = 0; i < data.myGenerals.length; i++) {
+            let general: GeneralData = Object.assign(new GeneralData(), data.myGenerals[i]);
+            if (this._generalConfigs.has(general.cfgId)) {
+                general.config = this._generalConfigs.get(general.cfgId);
+            }
+            this._myGenerals.set(general.id, general);
+        }
+    }
+
     /**武将配置*/
     public getGeneralCfg(cfgId: number): GeneralConfig {
         if (this._generalConfigs.has(cfgId)) {
@@ -0,0 +1,290 @@
+/**
+ * MessagePack 编解码
+ * https://github.com/msgpack/msgpack/blob/master/spec.md
+ * 只实现协议用到的类型：nil、bool、整数、浮点、字符串、二进制、数组、map，不支持ext
+ */
+
+function utf8Encode(str: string, out: number[]): void {
+    for (let i = 0; i < str.length; i++) {
+        let c = str.charCodeAt(i);
+        if (c >= 0xD800 && c <= 0xDBFF && i + 1 < str.length) {
+            let low = str.charCodeAt(i + 1);
+            if (low >= 0xDC00 && low <= 0xDFFF) {
+                c = 0x10000 + ((c - 0xD800) << 10) + (low - 0xDC00);
+                i++;
+            }
+        }
+        if (c < 0x80) {
+            out.push(c);
+        } else if (c < 0x800) {
+            out.push(0xC0 | (c >> 6), 0x80 | (c & 0x3F));
+        } else if (c < 0x10000) {
+            out.push(0xE0 | (c >> 12), 0x80 | ((c >> 6) & 0x3F), 0x80 | (c & 0x3F));
+        } else {
+            out.push(0xF0 | (c >> 18), 0x80 | ((c >> 12) & 0x3F), 0x80 | ((c >> 6) & 0x3F), 0x80 | (c & 0x3F));
+        }
+    }
+}
+
+function utf8Decode(bytes: ArrayLike<number>, start: number, end: number): string {
+    let str = "";
+    let i = start;
+    while (i < end) {
+        let c = bytes[i++];
+        if (c >= 0xF0) {
+            c = ((c & 0x07) << 18) | ((bytes[i++] & 0x3F) << 12) | ((bytes[i++] & 0x3F) << 6) | (bytes[i++] & 0x3F);
+        } else if (c >= 0xE0) {
+            c = ((c & 0x0F) << 12) | ((bytes[i++] & 0x3F) << 6) | (bytes[i++] & 0x3F);
+        } else if (c >= 0xC0) {
+            c = ((c & 0x1F) << 6) | (bytes[i++] & 0x3F);
+        }
+        if (c >= 0x10000) {
+            c -= 0x10000;
+            str += String.fromCharCode(0xD800 + (c >> 10), 0xDC00 + (c & 0x3FF));
+        } else {
+            str += String.fromCharCode(c);
+        }
+    }
+    return str;
+}
+
+
+class Encoder {
+    public out: number[] = [];
+    protected _float: DataView = new DataView(new ArrayBuffer(8));
+
+    public write(value: any): void {
+        if (value === null || value === undefined) {
+            this.out.push(0xC0);
+        } else if (value === false) {
+            this.out.push(0xC2);
+        } else if (value === true) {
+            this.out.push(0xC3);
+        } else if (typeof value === "number") {
+            this.writeNumber(value);
+        } else if (typeof value === "string") {
+            this.writeString(value);
+        } else if (value instanceof Uint8Array) {
+            this.writeHead(value.length, -1, 0xC4, 0xC5, 0xC6);
+            for (let i = 0; i < value.length; i++) {
+                this.out.push(value[i]);
+            }
+        } else if (Array.isArray(value)) {
+            this.writeHead(value.length, 0x90, -1, 0xDC, 0xDD);
+            for (let i = 0; i < value.length; i++) {
+                this.write(value[i]);
+            }
+        } else if (typeof value === "object") {
+            let keys = Object.keys(value).filter((key) => { return value[key] !== undefined; });
+            this.writeHead(keys.length, 0x80, -1, 0xDE, 0xDF);
+            for (let i = 0; i < keys.length; i++) {
+                this.writeString(keys[i]);
+                this.write(value[keys[i]]);
+            }
+        } else {
+            //函数等无法序列化的值，和JSON.stringify一样当作null
+            this.out.push(0xC0);
+        }
+    }
+
+    protected writeNumber(value: number): void {
+        if (Math.floor(value) !== value || !isFinite(value) || Math.abs(value) > 0xFFFFFFFF) {
+            this._float.setFloat64(0, value);
+            this.out.push(0xCB);
+            for (let i = 0; i < 8; i++) {
+                this.out.push(this._float.getUint8(i));
+            }
+        } else if (value >= 0) {
+            if (value < 0x80) {
+                this.out.push(value);
+            } else if (value < 0x100) {
+                this.out.push(0xCC, value);
+            } else if (value < 0x10000) {
+                this.out.push(0xCD);
+                this.writeUint(value, 2);
+            } else {
+                this.out.push(0xCE);
+                this.writeUint(value, 4);
+            }
+        } else {
+            if (value >= -0x20) {
+                this.out.push(value & 0xFF);
+            } else if (value >= -0x80) {
+                this.out.push(0xD0, value & 0xFF);
+            } else if (value >= -0x8000) {
+                this.out.push(0xD1);
+                this.writeUint(value & 0xFFFF, 2);
+            } else if (value >= -0x80000000) {
+                this.out.push(0xD2);
+                this.writeUint(value >>> 0, 4);
+            } else {
+                this._float.setFloat64(0, value);
+                this.out.push(0xCB);
+                for (let i = 0; i < 8; i++) {
+                    this.out.push(this._float.getUint8(i));
+                }
+            }
+        }
+    }
+
+    protected writeString(value: string): void {
+        let bytes: number[] = [];
+        utf8Encode(value, bytes);
+        this.writeHead(bytes.length, 0xA0, 0xD9, 0xDA, 0xDB);
+        for (let i = 0; i < bytes.length; i++) {
+            this.out.push(bytes[i]);
+        }
+    }
+
+    /**
+     * 长度头
+     * @param fix fix格式的前缀，-1表示没有
+     * @param head8 8位长度的前缀，-1表示没有
+     */
+    protected writeHead(length: number, fix: number, head8: number, head16: number, head32: number): void {
+        let fixMax = fix == 0xA0 ? 32 : 16;
+        if (fix >= 0 && length < fixMax) {
+            this.out.push(fix | length);
+        } else if (head8 >= 0 && length < 0x100) {
+            this.out.push(head8, length);
+        } else if (length < 0x10000) {
+            this.out.push(head16);
+            this.writeUint(length, 2);
+        } else {
+            this.out.push(head32);
+            this.writeUint(length, 4);
+        }
+    }
+
+    protected writeUint(value: number, size: number): void {
+        for (let i = size - 1; i >= 0; i--) {
+            this.out.push(Math.floor(value / Math.pow(256, i)) & 0xFF);
+        }
+    }
+}
+
+
+class Decoder {
+    protected _bytes: Uint8Array = null;
+    protected _view: DataView = null;
+    public pos: number = 0;
+
+    constructor(bytes: ArrayLike<number>) {
+        this._bytes = bytes instanceof Uint8Array ? bytes : new Uint8Array(Array.prototype.slice.call(bytes, 0));
+        this._view = new DataView(this._bytes.buffer, this._bytes.byteOffset, this._bytes.byteLength);
+    }
+
+    public read(): any {
+        if (this.pos >= this._bytes.length) {
+            throw new Error("msgpack: unexpected end of data");
+        }
+        let type = this._bytes[this.pos++];
+
+        if (type < 0x80) {
+            return type;
+        } else if (type < 0x90) {
+            return this.readMap(type & 0x0F);
+        } else if (type < 0xA0) {
+            return this.readArray(type & 0x0F);
+        } else if (type < 0xC0) {
+            return this.readString(type & 0x1F);
+        } else if (type >= 0xE0) {
+            return type - 0x100;
+        }
+
+        switch (type) {
+            case 0xC0: return null;
+            case 0xC2: return false;
+            case 0xC3: return true;
+            case 0xC4: return this.readBin(this.readUint(1));
+            case 0xC5: return this.readBin(this.readUint(2));
+            case 0xC6: return this.readBin(this.readUint(4));
+            case 0xCA: return this.readView(4, (offset) => { return this._view.getFloat32(offset); });
+            case 0xCB: return this.readView(8, (offset) => { return this._view.getFloat64(offset); });
+            case 0xCC: return this.readUint(1);
+            case 0xCD: return this.readUint(2);
+            case 0xCE: return this.readUint(4);
+            case 0xCF: return this.readUint(8);
+            case 0xD0: return this.readView(1, (offset) => { return this._view.getInt8(offset); });
+            case 0xD1: return this.readView(2, (offset) => { return this._view.getInt16(offset); });
+            case 0xD2: return this.readView(4, (offset) => { return this._view.getInt32(offset); });
+            case 0xD3: return this.readView(8, (offset) => {
+                //超出53位精度的部分会丢失
+                return this._view.getInt32(offset) * 0x100000000 + this._view.getUint32(offset + 4);
+            });
+            case 0xD9: return this.readString(this.readUint(1));
+            case 0xDA: return this.readString(this.readUint(2));
+            case 0xDB: return this.readString(this.readUint(4));
+            case 0xDC: return this.readArray(this.readUint(2));
+            case 0xDD: return this.readArray(this.readUint(4));
+            case 0xDE: return this.readMap(this.readUint(2));
+            case 0xDF: return this.readMap(this.readUint(4));
+        }
+        throw new Error("msgpack: unsupported type 0x" + type.toString(16));
+    }
+
+    protected readUint(size: number): number {
+        let value = 0;
+        for (let i = 0; i < size; i++) {
+            value = value * 256 + this._bytes[this.pos++];
+        }
+        return value;
+    }
+
+    protected readView(size: number, getter: (offset: number) => number): number {
+        let value = getter(this.pos);
+        this.pos += size;
+        return value;
+    }
+
+    protected readString(length: number): string {
+        let str = utf8Decode(this._bytes, this.pos, this.pos + length);
+        this.pos += length;
+        return str;
+    }
+
+    protected readBin(length: number): Uint8Array {
+        let bin = this._bytes.slice(this.pos, this.pos + length);
+        this.pos += length;
+        return bin;
+    }
+
+    protected readArray(length: number): any[] {
+        let arr = new Array(length);
+        for (let i = 0; i < length; i++) {
+            arr[i] = this.read();
+        }
+        return arr;
+    }
+
+    protected readMap(length: number): any {
+        let map = {};
+        for (let i = 0; i < length; i++) {
+            let key = this.read();
+            map[key] = this.read();
+        }
+        return map;
+    }
+}
+
+
+export function encode(value: any): number[] {
+    let encoder = new Encoder();
+    encoder.write(value);
+    return encoder.out;
+}
+
+export function decode(bytes: ArrayLike<number>): any {
+    let decoder = new Decoder(bytes);
+    return decoder.read();
+}
+
+export function utf8ToBytes(str: string): number[] {
+    let out: number[] = [];
+    utf8Encode(str, out);
+    return out;
+}
+
+export function bytesToUtf8(bytes: ArrayLike<number>): string {
+    return utf8Decode(bytes, 0, bytes.length);
+}
@@ -1,16 +1,20 @@
 import { HttpConfig } from "../config/HttpConfig";
 import { ServerConfig } from "../config/ServerConfig";
+import { ServerResponse } from "../config/ServerProtocol";
 import { HttpManager } from "../network/http/HttpManager";
+import { HttpError } from "../network/http/HttpInvoke";
 import { NetManager } from "../network/socket/NetManager";
 import { Tools } from "../utils/Tools";
 import LoginProxy from "./LoginProxy";
-import { NetEvent } from "../network/socket/NetInterface";
+import { NetErrorType, NetEvent } from "../network/socket/NetInterface";
+import { NetNodeType } from "../network/socket/NetNode";
 import MapCommand from "../map/MapCommand";
-import { LocalCache } from "../utils/LocalCache";
+import { CacheKeys, LocalCache } from "../utils/LocalCache";
 import DateUtil from "../utils/DateUtil";
 import { EventMgr } from "../utils/EventMgr";
 import { Md5 } from "../libs/crypto/md5";
 import { LogicEvent } from "../common/LogicEvent";
+import ChatCommand from "../chat/ChatCommand";
 
 export default class LoginCommand {
     //单例
@@ -36,14 +40,13 @@ export default class LoginCommand {
 
     constructor() {
         EventMgr.on(NetEvent.ServerCheckLogin, this.onServerConneted, this);
-        EventMgr.on(HttpConfig.register.name, this.onRegister, this);
         EventMgr.on(ServerConfig.account_login, this.onAccountLogin, this);
         EventMgr.on(ServerConfig.role_enterServer, this.onEnterServer, this);
         EventMgr.on(ServerConfig.account_reLogin, this.onAccountRelogin, this);
         EventMgr.on(ServerConfig.role_create, this.onRoleCreate, this);
         EventMgr.on(ServerConfig.account_logout, this.onAccountLogout, this);
         EventMgr.on(ServerConfig.account_robLogin, this.onAccountRobLogin, this)
-        EventMgr.on(ServerConfig.chat_login, this.onChatLogin, this)
+        EventMgr.on(ServerConfig.heartbeat, this.onHeartbeat, this);
 
     }
 
@@ -60,18 +63,18 @@ export default class LoginCommand {
     /**注册回调*/
     private onRegister(data: any, otherData: any): void {
         console.log("LoginProxy register:", data, otherData);
-        if (data.code == 0) {
-            this.accountLogin(otherData.username, otherData.password);
-            LocalCache.setLoginValidation(otherData);
-        }
+        //账号密码在登录成功后按账号保存
+        this.accountLogin(otherData.username, otherData.password);
     }
 
     /**登录回调*/
-    private onAccountLogin(data: any, otherData:any): void {
+    private onAccountLogin(data: ServerResponse<"account.login">, otherData:any): void {
         console.log("LoginProxy  login:", data , otherData);
         if (data.code == 0) {
             // this._proxy.loginData = data.msg;
             this._proxy.saveLoginData(data.msg);
+            LocalCache.setAccount(data.msg.uid);
+            LocalCache.set(CacheKeys.lastUid, data.msg.uid);
             LocalCache.setLoginValidation(otherData);
 
 
@@ -82,7 +85,7 @@ export default class LoginCommand {
     }
 
     /**进入服务器回调*/
-    private onEnterServer(data: any,isLoadMap:boolean): void {
+    private onEnterServer(data: ServerResponse<"role.enterServer">,isLoadMap:boolean): void {
         console.log("LoginProxy  enter:", data,isLoadMap);
         //没有创建打开创建
         if (data.code == 9) {
@@ -93,8 +96,9 @@ export default class LoginCommand {
                 this._proxy.saveEnterData(data.msg);
                 DateUtil.setServerTime(data.msg.time);
 
-                // var roleData = this._proxy.getRoleData();
-                // this.chatLogin(roleData.rid, data.msg.token, roleData.nickName);
+                var roleData = this._proxy.getRoleData();
+                LocalCache.setServer(roleData.sid);
+                ChatCommand.getInstance().login(roleData.rid, data.msg.token, roleData.nickName);
 
                  //进入游戏
                 if(isLoadMap == true){
@@ -102,15 +106,30 @@ export default class LoginCommand {
                     MapCommand.getInstance().enterMap();
                     EventMgr.emit(LogicEvent.enterServerComplete);
                 }else{
-                    EventMgr.emit(NetEvent.ServerHandShake);
+                    EventMgr.emit(NetEvent.ServerHandShake, NetNodeType.BaseServer);
                 }
 
             }
         }
     }
 
+    /**心跳回调 校正服务器时间*/
+    private onHeartbeat(data: ServerResponse<"heartbeat">, otherData: any): void {
+        if (otherData && otherData.type != NetNodeType.BaseServer) {
+            //聊天服务器的心跳
+            return;
+        }
+        if (data.code == 0 && data.msg) {
+            DateUtil.updateServerTime(data.msg.ctime, data.msg.stime);
+            EventMgr.emit(LogicEvent.updateLatency, DateUtil.getLatency(), DateUtil.getClockSkew());
+        }
+    }
+
     /**重连回调*/
-    private onServerConneted(): void {
+    private onServerConneted(type: NetNodeType = NetNodeType.BaseServer): void {
+        if (type != NetNodeType.BaseServer) {
+            return;
+        }
         //重新连接成功 重新登录
         var loginData = this._proxy.getLoginData();
         var roleData = this._proxy.getRoleData();
@@ -119,12 +138,12 @@ export default class LoginCommand {
         if (loginData) {
             this.account_reLogin(loginData.session);
         }else{
-            EventMgr.emit(NetEvent.ServerHandShake);
+            EventMgr.emit(NetEvent.ServerHandShake, NetNodeType.BaseServer);
         }
     }
 
     /**重新登录回调回调*/
-    private onAccountRelogin(data: any): void {
+    private onAccountRelogin(data: ServerResponse<"account.reLogin">): void {
         //断线重新登录
         console.log("LoginProxy  relogin:", data);
         if(data.code == 0){
@@ -134,7 +153,7 @@ export default class LoginCommand {
     }
 
     /**创建角色回调*/
-    private onRoleCreate(data: any): void {
+    private onRoleCreate(data: ServerResponse<"role.create">): void {
         //重换成功再次调用
         if (data.code == 0) {
             this.role_enterServer(this._proxy.getSession());
@@ -144,22 +163,16 @@ export default class LoginCommand {
 
     
     /**登出回调*/
-    private onAccountLogout(data: any): void {
+    private onAccountLogout(data: ServerResponse<"account.logout">): void {
         //重换成功再次调用
         if (data.code == 0) {
             this._proxy.clear();
+            LocalCache.setAccount(0);
             EventMgr.emit(LogicEvent.enterLogin);
         }
     }
 
 
-
-
-    //聊天登录
-    private onChatLogin(data: any): void{
-        console.log("onChatLogin:",data);
-    }
-
     public get proxy(): LoginProxy {
         return this._proxy;
     }
@@ -171,13 +184,26 @@ export default class LoginCommand {
     public register(name: string, password: string) {
 
         var pwd =  Md5.encrypt(password);
-        var params = "username=" + name
-            + "&password=" + pwd
-            + "&hardware=" + Tools.getUUID();
+        var params = {
+            username: name,
+            password: pwd,
+            hardware: Tools.getUUID()
+        };
 
         console.log("register:", params);
         var otherData = { username: name, password: password };
-        HttpManager.getInstance().doGet(HttpConfig.register.name, HttpConfig.register.url, params, otherData);
+        //注册不是幂等的，不重试
+        HttpManager.getInstance().request({
+            name: HttpConfig.register.name,
+            url: HttpConfig.register.url,
+            query: params,
+            idempotent: false,
+        }).then((result) => {
+            this.onRegister(result.data, otherData);
+        }, (error: HttpError) => {
+            console.log("register error:", error);
+            EventMgr.emit(LogicEvent.showToast, error.type == NetErrorType.Code ? error.codeStr : "注册失败，请检查网络");
+        });
     }
 
     /**
@@ -269,20 +295,4 @@ export default class LoginCommand {
         };
         NetManager.getInstance().send(send_data);
     }
-
-
-    public chatLogin(rid:number, token: string, nick_name:string = ''):void{
-        var api_name = ServerConfig.chat_login;
-        var send_data = {
-            name: api_name,
-            msg: {
-                rid:rid,
-                token:token,
-                nickName:nick_name
-            }
-        };
-
-        console.log("send_data:", send_data);
-        NetManager.getInstance().send(send_data);
-    }
 }
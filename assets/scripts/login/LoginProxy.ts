@@ -93,4 +93,19 @@ export default class LoginProxy {
     public getSession():string{
         return this._loginData.session;
     }
+
+
+    /**导出角色数据，不包含登录session和token*/
+    public dumpState():any{
+        return {serverId: this.serverId, role: this._roleData, roleRes: this._roleResData};
+    }
+
+    public restoreState(data:any):void{
+        this.clear();
+        this.serverId = data.serverId;
+        if(data.role){
+            this.setRoleData(data.role);
+        }
+        this.setRoleResData(data.roleRes);
+    }
 }
@@ -5,6 +5,7 @@ import {MapResType } from "./MapProxy";
 import MapUtil from "./MapUtil";
 import { EventMgr } from '../utils/EventMgr';
 import { LogicEvent } from '../common/LogicEvent';
+import { ServerMapBuild } from '../config/ServerProtocol';
 
 /**地图建筑和占领数据*/
 export class MapBuildData {
@@ -27,7 +28,7 @@ export class MapBuildData {
     giveUpTime: number;
     endTime: number;
 
-    public equalsServerData(data: any) {
+    public equalsServerData(data: ServerMapBuild) {
         if (this.rid == data.rid
             && this.name == data.name
             && this.nickName == data.RNick
@@ -35,7 +36,7 @@ export class MapBuildData {
             && this.level == data.level
             && this.opLevel == data.op_level
             && this.curDurable == data.cur_durable
-            && this.maxDurable == data.maxDurable
+            && this.maxDurable == data.max_durable
             && this.defender == data.defender
             && this.unionId == data.union_id
             && this.parentId == data.parent_id
@@ -48,7 +49,7 @@ export class MapBuildData {
         return false;
     }
 
-    public static createBuildData(data: any, id: number = 0, buildData: MapBuildData = null): MapBuildData {
+    public static createBuildData(data: ServerMapBuild, id: number = 0, buildData: MapBuildData = null): MapBuildData {
         let build: MapBuildData = buildData;
         if (buildData == null) {
             build = new MapBuildData();
@@ -289,4 +290,55 @@ export default class MapBuildProxy {
             this.myParentId = parentId;
         }
     }
+
+    /**导出自己的领地和已加载区域里的建筑*/
+    public dumpState(): any {
+        let mapBuilds: MapBuildData[] = [];
+        this._lastBuildCellIds.forEach((cellIds: number[]) => {
+            for (let i: number = 0; i < cellIds.length; i++) {
+                if (this._mapBuilds[cellIds[i]]) {
+                    mapBuilds.push(this._mapBuilds[cellIds[i]]);
+                }
+            }
+        });
+        return {
+            myId: this.myId,
+            myUnionId: this.myUnionId,
+            myParentId: this.myParentId,
+            myBuilds: this._myBuilds,
+            mapBuilds: mapBuilds,
+        };
+    }
+
+    /**恢复自己的领地，地图上的建筑需要地图加载后调用restoreMapBuilds*/
+    public restoreState(data: any): void {
+        this.myId = data.myId;
+        this.myUnionId = data.myUnionId;
+        this.myParentId = data.myParentId;
+        this._myBuilds = data.myBuilds.map((build: any) => {
+            return Object.assign(new MapBuildData(), build);
+        });
+    }
+
+    /**恢复地图上的建筑，按区域派发updateBuilds*/
+    public restoreMapBuilds(builds: any[]): void {
+        let areaCellIds: Map<number, number[]> = new Map<number, number[]>();
+        for (let i: number = 0; i < builds.length; i++) {
+            let cellId: number = MapUtil.getIdByCellPoint(builds[i].x, builds[i].y);
+            let areaId: number = MapUtil.getAreaIdByCellPoint(builds[i].x, builds[i].y);
+            let buildData: MapBuildData = this._mapBuilds[cellId] || new MapBuildData();
+            Object.assign(buildData, builds[i]);
+            buildData.id = cellId;
+            this._mapBuilds[cellId] = buildData;
+
+            if (!areaCellIds.has(areaId)) {
+                areaCellIds.set(areaId, []);
+            }
+            areaCellIds.get(areaId).push(cellId);
+        }
+        areaCellIds.forEach((cellIds: number[], areaId: number) => {
+            this._lastBuildCellIds.set(areaId, cellIds);
+            EventMgr.emit(LogicEvent.updateBuilds, areaId, cellIds, [], []);
+        });
+    }
 }
@@ -2,6 +2,7 @@ import { _decorator } from 'cc';
 import MapUtil from "./MapUtil";
 import { EventMgr } from '../utils/EventMgr';
 import { LogicEvent } from '../common/LogicEvent';
+import { ServerMapCity } from '../config/ServerProtocol';
 
 
 /**地图城池配置*/
@@ -21,7 +22,7 @@ export class MapCityData {
     unionName:string = "";
     occupyTime:number;
 
-    public equalsServerData(data: any) {
+    public equalsServerData(data: ServerMapCity) {
         if (this.cityId == data.cityId
             && this.rid == data.rid
             && this.name == data.name
@@ -30,7 +31,7 @@ export class MapCityData {
             && this.isMain == data.is_main
             && this.level == data.level
             && this.curDurable == data.cur_durable
-            && this.maxDurable == data.maxDurable
+            && this.maxDurable == data.max_durable
             && this.unionId == data.union_id
             && this.parentId == data.parent_id 
             && this.unionName == data.union_name
@@ -40,7 +41,7 @@ export class MapCityData {
         return false;
     }
 
-    public static createCityData(data: any, id: number, cityData: MapCityData = null): MapCityData {
+    public static createCityData(data: ServerMapCity, id: number, cityData: MapCityData = null): MapCityData {
         let city: MapCityData = cityData;
         if (cityData == null) {
             city = new MapCityData();
@@ -92,6 +93,11 @@ export default class MapCityProxy {
 
     public addCityData(data: any, cellId: number): void {
         let cityData: MapCityData = MapCityData.createCityData(data, cellId, this._mapCitys[cellId]);
+        this.setCityCells(cellId, cityData);
+    }
+
+    //城池占中心格子和周围8个格子
+    protected setCityCells(cellId: number, cityData: MapCityData): void {
         this._mapCitys[cellId] = cityData;
         this._mapCitys[cellId - 1] = cityData;
         this._mapCitys[cellId + 1] = cityData;
@@ -258,4 +264,55 @@ export default class MapCityProxy {
         }
         return 0;
     }
+
+    /**导出自己的城池和已加载区域里的城池*/
+    public dumpState(): any {
+        let mapCitys: MapCityData[] = [];
+        this._lastCityCellIds.forEach((cellIds: number[]) => {
+            for (let i: number = 0; i < cellIds.length; i++) {
+                if (this._mapCitys[cellIds[i]]) {
+                    mapCitys.push(this._mapCitys[cellIds[i]]);
+                }
+            }
+        });
+        return {
+            myId: this.myId,
+            myUnionId: this.myUnionId,
+            myParentId: this.myParentId,
+            myCitys: this._myCitys,
+            mapCitys: mapCitys,
+        };
+    }
+
+    /**恢复自己的城池，地图上的城池需要地图加载后调用restoreMapCitys*/
+    public restoreState(data: any): void {
+        this.myId = data.myId;
+        this.myUnionId = data.myUnionId;
+        this.myParentId = data.myParentId;
+        this._myCitys = data.myCitys.map((city: any) => {
+            return Object.assign(new MapCityData(), city);
+        });
+    }
+
+    /**恢复地图上的城池，按区域派发updateCitys*/
+    public restoreMapCitys(citys: any[]): void {
+        let areaCellIds: Map<number, number[]> = new Map<number, number[]>();
+        for (let i: number = 0; i < citys.length; i++) {
+            let cellId: number = MapUtil.getIdByCellPoint(citys[i].x, citys[i].y);
+            let areaId: number = MapUtil.getAreaIdByCellPoint(citys[i].x, citys[i].y);
+            let cityData: MapCityData = this.getMyCityById(citys[i].cityId) || new MapCityData();
+            Object.assign(cityData, citys[i]);
+            cityData.id = cellId;
+            this.setCityCells(cellId, cityData);
+
+            if (!areaCellIds.has(areaId)) {
+                areaCellIds.set(areaId, []);
+            }
+            areaCellIds.get(areaId).push(cellId);
+        }
+        areaCellIds.forEach((cellIds: number[], areaId: number) => {
+            this._lastCityCellIds.set(areaId, cellIds);
+            EventMgr.emit(LogicEvent.updateCitys, areaId, cellIds, [], []);
+        });
+    }
 }
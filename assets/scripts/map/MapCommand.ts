@@ -1,8 +1,11 @@
 import { _decorator } from 'cc';
 import { ServerConfig } from "../config/ServerConfig";
+import { ServerResponse } from "../config/ServerProtocol";
 import ArmyCommand from "../general/ArmyCommand";
 import GeneralCommand from "../general/GeneralCommand";
 import { NetManager } from "../network/socket/NetManager";
+import { NetEvent } from "../network/socket/NetInterface";
+import { NetNodeType } from "../network/socket/NetNode";
 import DateUtil from "../utils/DateUtil";
 import MapBuildProxy, { MapBuildData } from "./MapBuildProxy";
 import MapCityProxy, { MapCityData } from "./MapCityProxy";
@@ -65,6 +68,7 @@ export default class MapCommand {
         EventMgr.on(ServerConfig.roleCity_push, this.onRoleCityPush, this);
         EventMgr.on(ServerConfig.role_posTagList, this.onPosTagList, this);
         EventMgr.on(ServerConfig.role_opPosTag, this.onOpPosTag, this);
+        EventMgr.on(NetEvent.ServerReconnected, this.onServerReconnected, this);
     }
 
     /**
@@ -120,10 +124,16 @@ export default class MapCommand {
     /**
      * 处理角色属性信息响应
      * @param data 服务器返回的角色属性数据
+     * @param otherData 请求时的参数，resync为true时是重连后的同步
      */
-    protected onRoleMyProperty(data: any): void {
+    protected onRoleMyProperty(data: ServerResponse<"role.myProperty">, otherData: any): void {
         console.log("onRoleMyProperty", data);
 
+        if (data.code == 0 && otherData && otherData.resync) {
+            this.resyncMyProperty(data);
+            return;
+        }
+
         if (data.code == 0) {
             this._isQryMyProperty = true;
             MapUICommand.getInstance().updateMyProperty(data);
@@ -143,11 +153,82 @@ export default class MapCommand {
         }
     }
 
+    /**
+     * 断线重连成功，断线期间的推送已经丢失，需要重新同步
+     * @param type 服务器类型
+     */
+    protected onServerReconnected(type: NetNodeType): void {
+        if (type != NetNodeType.BaseServer || this._isQryMyProperty == false) {
+            //还没进入游戏，进入时会全量请求
+            return;
+        }
+        this.resync();
+    }
+
+    /**
+     * 重新拉取角色数据、军队、设施、战报和当前可见的地图区域
+     * 回包走正常的处理流程，和本地数据对比后发出更新事件
+     */
+    public resync(): void {
+        console.log("MapCommand resync");
+        this.qryRoleMyProperty(true);
+
+        let citys: MapCityData[] = this._cityProxy.getMyCitys();
+        for (let i: number = 0; i < citys.length; i++) {
+            ArmyCommand.getInstance().qryArmyList(citys[i].cityId);
+            MapUICommand.getInstance().qryCityFacilities(citys[i].cityId);
+        }
+        MapUICommand.getInstance().qryWarReport();
+
+        let centerAreaId: number = this._proxy.getCurCenterAreaId();
+        if (centerAreaId >= 0) {
+            let areaIds: number[] = MapUtil.get9GridVaildAreaIds(centerAreaId);
+            for (let i: number = 0; i < areaIds.length; i++) {
+                this.qryNationMapScanBlock(this._proxy.getMapAreaData(areaIds[i]));
+            }
+        }
+    }
+
+    /**
+     * 重连后的角色全量信息，更新到已有数据而不是重新进入地图
+     * @param data 服务器返回的角色属性数据
+     */
+    protected resyncMyProperty(data: ServerResponse<"role.myProperty">): void {
+        MapUICommand.getInstance().updateMyProperty(data);
+        GeneralCommand.getInstance().updateMyProperty(data.msg.generals);
+        ArmyCommand.getInstance().updateMyProperty(data.msg.armys);
+
+        for (let i: number = 0; i < data.msg.citys.length; i++) {
+            let city = data.msg.citys[i];
+            this._buildProxy.updateSub(city.rid, city.union_id, city.parent_id);
+            this._cityProxy.updateCity(city);
+        }
+        let mainCity: MapCityData = this._cityProxy.getMyMainCity();
+        if (mainCity) {
+            this._buildProxy.myUnionId = mainCity.unionId;
+            this._buildProxy.myParentId = mainCity.parentId;
+            EventMgr.emit(LogicEvent.unionChange, mainCity.rid, mainCity.unionId, mainCity.parentId);
+        }
+
+        //断线期间丢失的领地，地图上的显示由区域扫描刷新
+        let builds = data.msg.mr_builds;
+        let myBuilds: MapBuildData[] = this._buildProxy.getMyBuildList().concat();
+        for (let i: number = 0; i < myBuilds.length; i++) {
+            let has: boolean = builds.some((build) => { return build.x == myBuilds[i].x && build.y == myBuilds[i].y; });
+            if (has == false) {
+                this._buildProxy.removeMyBuild(myBuilds[i].x, myBuilds[i].y);
+            }
+        }
+        for (let i: number = 0; i < builds.length; i++) {
+            this._buildProxy.updateBuild(builds[i]);
+        }
+    }
+
     /**
      * 处理建筑状态推送
      * @param data 服务器推送的建筑状态数据
      */
-    protected onRoleBuildStatePush(data: any): void {
+    protected onRoleBuildStatePush(data: ServerResponse<"roleBuild.push">): void {
         console.log("onRoleBuildStatePush", data);
 
         if (data.code == 0) {
@@ -159,7 +240,7 @@ export default class MapCommand {
      * 处理国家地图配置响应
      * @param data 服务器返回的地图配置数据
      */
-    protected onNationMapConfig(data: any): void {
+    protected onNationMapConfig(data: ServerResponse<"nationMap.config">): void {
         console.log("onNationMapConfig", data);
 
         if (data.code == 0) {
@@ -173,7 +254,7 @@ export default class MapCommand {
      * @param data 服务器返回的扫描数据
      * @param otherData 附加数据
      */
-    protected onNationMapScanBlock(data: any, otherData: any): void {
+    protected onNationMapScanBlock(data: ServerResponse<"nationMap.scanBlock">, otherData: any): void {
         console.log("onNationMapScan", data, otherData);
 
         if (data.code == 0) {
@@ -187,7 +268,7 @@ export default class MapCommand {
      * @param data 服务器返回的数据
      * @param otherData 附加数据
      */
-    protected onNationMapGiveUp(data: any, otherData: any): void {
+    protected onNationMapGiveUp(data: ServerResponse<"nationMap.giveUp">, otherData: any): void {
         console.log("onNationMapGiveUp", data, otherData);
     }
 
@@ -196,7 +277,7 @@ export default class MapCommand {
      * @param data 服务器返回的数据
      * @param otherData 附加数据
      */
-    protected onNationMapBuild(data: any, otherData: any): void {
+    protected onNationMapBuild(data: ServerResponse<"nationMap.build">, otherData: any): void {
         console.log("onNationMapBuild", data, otherData);
     }
 
@@ -205,7 +286,7 @@ export default class MapCommand {
      * @param data 服务器返回的数据
      * @param otherData 附加数据
      */
-    protected onNationMapUpBuild(data: any, otherData: any): void {
+    protected onNationMapUpBuild(data: ServerResponse<"nationMap.upBuild">, otherData: any): void {
         console.log("onNationMapUpBuild", data, otherData);
     }
 
@@ -214,7 +295,7 @@ export default class MapCommand {
      * @param data 服务器返回的标签列表数据
      * @param otherData 附加数据
      */
-    protected onPosTagList(data: any, otherData: any): void {
+    protected onPosTagList(data: ServerResponse<"role.posTagList">, otherData: any): void {
         console.log("onPosTagList", data, otherData);
 
         if (data.code == 0) {
@@ -227,7 +308,7 @@ export default class MapCommand {
      * @param data 服务器返回的操作结果
      * @param otherData 附加数据
      */
-    protected onOpPosTag(data: any, otherData: any): void {
+    protected onOpPosTag(data: ServerResponse<"role.opPosTag">, otherData: any): void {
         console.log("onOpPosTag", data, otherData);
 
         if (data.code == 0) {
@@ -245,7 +326,7 @@ export default class MapCommand {
      * 处理角色城池推送
      * @param data 服务器推送的城池数据
      */
-    protected onRoleCityPush(data: any): void {
+    protected onRoleCityPush(data: ServerResponse<"roleCity.push">): void {
         console.log("onRoleCityPush:", data)
 
         this._buildProxy.updateSub(data.msg.rid, data.msg.union_id, data.msg.parent_id);
@@ -426,21 +507,22 @@ export default class MapCommand {
 
     /**
      * 请求角色全量信息
+     * @param resync 重连后的同步，回包只更新已有数据，不重新进入地图
      */
-    public qryRoleMyProperty(): void {
-        let sendData: any = {
+    public qryRoleMyProperty(resync: boolean = false): void {
+        let sendData = {
             name: ServerConfig.role_myProperty,
             msg: {
             }
         };
-        NetManager.getInstance().send(sendData);
+        NetManager.getInstance().send(sendData, { resync: resync });
     }
 
     /**
      * 请求自己的城池信息
      */
     public qryRoleMyCity(): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.role_myCity,
             msg: {}
         };
@@ -451,7 +533,7 @@ export default class MapCommand {
      * 请求地图基础配置
      */
     public qryNationMapConfig(): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.nationMap_config,
             msg: {}
         };
@@ -463,7 +545,7 @@ export default class MapCommand {
      * @param qryData 查询区域数据
      */
     public qryNationMapScanBlock(qryData: MapAreaData): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.nationMap_scanBlock,
             msg: {
                 x: qryData.startCellX,
@@ -480,7 +562,7 @@ export default class MapCommand {
      * @param y Y坐标
      */
     public giveUpBuild(x: number, y: number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.nationMap_giveUp,
             msg: {
                 x: x,
@@ -497,7 +579,7 @@ export default class MapCommand {
      * @param type 建筑类型
      */
     public build(x: number, y: number, type: number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.nationMap_build,
             msg: {
                 x: x,
@@ -514,7 +596,7 @@ export default class MapCommand {
      * @param y Y坐标
      */
     public upBuild(x: number, y: number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.nationMap_upBuild,
             msg: {
                 x: x,
@@ -530,7 +612,7 @@ export default class MapCommand {
      * @param y Y坐标
      */
     public delBuild(x: number, y: number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.nationMap_delBuild,
             msg: {
                 x: x,
@@ -546,7 +628,7 @@ export default class MapCommand {
      * @param y Y坐标
      */
     public upPosition(x: number, y: number): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.role_upPosition,
             msg: {
                 x: x,
@@ -560,7 +642,7 @@ export default class MapCommand {
      * 获取位置标签列表
      */
     public posTagList(): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.role_posTagList,
             msg: {
             }
@@ -576,7 +658,7 @@ export default class MapCommand {
      * @param name 标签名称
      */
     public opPosTag(type: number, x: number, y: number, name = ""): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.role_opPosTag,
             msg: {
                 type: type,
@@ -2,6 +2,8 @@ import { _decorator, TiledMapAsset, Vec2, game, view } from 'cc';
 import MapUtil from "./MapUtil";
 import { EventMgr } from '../utils/EventMgr';
 import { LogicEvent } from '../common/LogicEvent';
+import { ServerNationMapConfig } from '../config/ServerProtocol';
+import { CacheKeys, LocalCache } from '../utils/LocalCache';
 
 /**
  * 地图资源配置类
@@ -187,6 +189,10 @@ export default class MapProxy {
      */
     public initData(): void {
         this._mapAreaDatas.length = MapUtil.areaCount;
+        //服务器的标记列表还没返回时先用本地缓存的
+        if (this._mapPosTags.length == 0) {
+            this.updateMapPosTags(LocalCache.get(CacheKeys.posTags));
+        }
     }
 
     /**
@@ -198,6 +204,7 @@ export default class MapProxy {
         this._curCenterAreaId = -1;
         this._mapAreaDatas.length = 0;
         this.qryAreaIds.length = 0;
+        this._mapPosTags = [];
     }
 
     /**
@@ -205,14 +212,14 @@ export default class MapProxy {
      * 从服务器获取的配置数据转换为本地配置对象
      * @param configList 配置数据列表
      */
-    public setNationMapConfig(configList: any[]): void {
+    public setNationMapConfig(configList: ServerNationMapConfig[]): void {
         this._mapResConfigs.clear();
         for (let i: number = 0; i < configList.length; i++) {
             let cfg: MapResConfig = new MapResConfig();
             cfg.type = configList[i].type;
             cfg.level = configList[i].level;
             cfg.name = configList[i].name;
-            cfg.wood = configList[i].Wood;
+            cfg.wood = configList[i].wood;
             cfg.iron = configList[i].iron;
             cfg.stone = configList[i].stone;
             cfg.grain = configList[i].grain;
@@ -512,6 +519,7 @@ export default class MapProxy {
             tag.name = data.name;
             this._mapPosTags.push(tag);
         });
+        this.savePosTags();
     }
 
     /**
@@ -527,6 +535,7 @@ export default class MapProxy {
             }
         });
         this._mapPosTags = tags;
+        this.savePosTags();
     }
 
     /**
@@ -551,9 +560,16 @@ export default class MapProxy {
 
         if (ok) {
             this._mapPosTags.push(tag);
+            this.savePosTags();
         }
     }
 
+    protected savePosTags(): void {
+        LocalCache.set(CacheKeys.posTags, this._mapPosTags.map((tag) => {
+            return { x: tag.x, y: tag.y, name: tag.name };
+        }));
+    }
+
     /**
      * 检查指定位置是否有标记
      * @param x X坐标
@@ -579,4 +595,34 @@ export default class MapProxy {
     public getPosTags(): MapTagPos[] {
         return this._mapPosTags;
     }
+
+    /**
+     * 导出地图状态
+     * @returns 中心点、当前九宫格显示的区域、位置标记和建筑配置
+     */
+    public dumpState(): any {
+        let areaIds: number[] = [];
+        if (this._curCenterAreaId >= 0) {
+            areaIds = MapUtil.get9GridVaildAreaIds(this._curCenterAreaId);
+        }
+        return {
+            warFree: this.warFree,
+            centerPoint: this._curCenterPoint ? { x: this._curCenterPoint.x, y: this._curCenterPoint.y } : null,
+            centerAreaId: this._curCenterAreaId,
+            areaIds: areaIds,
+            posTags: this._mapPosTags,
+            resConfigs: Array.from(this._mapResConfigs.values()),
+        };
+    }
+
+    /**
+     * 恢复地图状态
+     * 中心点依赖地图加载，由调用方在地图加载后定位
+     * @param data dumpState导出的数据
+     */
+    public restoreState(data: any): void {
+        this.warFree = data.warFree;
+        this.setNationMapConfig(data.resConfigs);
+        this.updateMapPosTags(data.posTags);
+    }
 }
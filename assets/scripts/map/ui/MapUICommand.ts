@@ -1,7 +1,10 @@
 import { _decorator } from 'cc';
 import { ServerConfig } from "../../config/ServerConfig";
+import { ServerResponse } from "../../config/ServerProtocol";
 import LoginCommand from "../../login/LoginCommand";
 import { NetManager } from "../../network/socket/NetManager";
+import { NetNodeType } from "../../network/socket/NetNode";
+import { NetCancelToken } from "../../network/NetCancel";
 import { MapCityData } from "../MapCityProxy";
 import MapCommand from "../MapCommand";
 import MapUIProxy, { CityAddition, Facility } from "./MapUIProxy";
@@ -58,7 +61,7 @@ export default class MapUICommand {
         }, 1000);
     }
 
-    protected onCityFacilities(data: any): void {
+    protected onCityFacilities(data: ServerResponse<"city.facilities">): void {
         console.log("onCityFacilities :", data);
         if (data.code == 0) {
             this._proxy.updateMyFacilityList(data.msg.cityId, data.msg.facilities);
@@ -73,7 +76,7 @@ export default class MapUICommand {
     }
 
 
-    protected onCityUpFacility(data: any): void {
+    protected onCityUpFacility(data: ServerResponse<"city.upFacility">): void {
         console.log("onCityUpFacility :", data);
         if (data.code == 0) {
             let facilityData: Facility = this._proxy.updateMyFacility(data.msg.cityId, data.msg.facility);
@@ -90,7 +93,7 @@ export default class MapUICommand {
     }
 
 
-    protected onRoleMyRoleRes(data: any): void {
+    protected onRoleMyRoleRes(data: ServerResponse<"role.myRoleRes">): void {
         console.log("onRoleMyProperty :", data);
         if (data.code == 0) {
             LoginCommand.getInstance().proxy.saveEnterData(data.msg);
@@ -99,7 +102,7 @@ export default class MapUICommand {
     }
 
 
-    protected updataRoleRes(data: any): void {
+    protected updataRoleRes(data: ServerResponse<"roleRes.push">): void {
         if (data.code == 0) {
             LoginCommand.getInstance().proxy.setRoleResData(data.msg);
             EventMgr.emit(LogicEvent.upateMyRoleRes);
@@ -107,7 +110,7 @@ export default class MapUICommand {
     }
 
 
-    protected onUpdataWarReports(data: any): void {
+    protected onUpdataWarReports(data: ServerResponse<"war.report">): void {
         console.log("onUpdataWarReport :", data);
         if (data.code == 0) {
             this._proxy.updateWarReports(data.msg);
@@ -117,7 +120,7 @@ export default class MapUICommand {
 
 
 
-    protected onUpdataWarReport(data: any): void {
+    protected onUpdataWarReport(data: ServerResponse<"warReport.push">): void {
         console.log("onUpdataWarReport :", data);
         if (data.code == 0) {
             this._proxy.updateWarReport(data.msg);
@@ -125,7 +128,7 @@ export default class MapUICommand {
         }
     }
 
-    protected onUpdataWarRead(data: any): void {
+    protected onUpdataWarRead(data: ServerResponse<"war.read">): void {
         console.log("onUpdataWarRead :", data);
         if (data.code == 0) {
             var id = data.msg.id;
@@ -139,14 +142,14 @@ export default class MapUICommand {
         }
     }
 
-    protected onCollect(data:any):void {
+    protected onCollect(data:ServerResponse<"interior.collect">):void {
         console.log("onCollect :", data);
         if (data.code == 0) {
             EventMgr.emit(LogicEvent.interiorCollect, data.msg);
         }
     }
 
-    protected onOpenCollect(data:any):void{
+    protected onOpenCollect(data:ServerResponse<"interior.openCollect">):void{
         console.log("onOpenCollect :", data);
         if (data.code == 0) {
             EventMgr.emit(LogicEvent.interiorOpenCollect, data.msg);
@@ -167,7 +170,7 @@ export default class MapUICommand {
      * @param cityId 
      */
     public qryCityFacilities(cityId: number = 0): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.city_facilities,
             msg: {
                 cityId: cityId,
@@ -183,7 +186,7 @@ export default class MapUICommand {
      * @param ftype 
      */
     public upFacility(cityId: number = 0, ftype: number = 0): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.city_upFacility,
             msg: {
                 cityId: cityId,
@@ -198,7 +201,7 @@ export default class MapUICommand {
      * @param cityId 
      */
     public qryMyRoleRes(): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.role_myRoleRes,
             msg: {
             }
@@ -221,13 +224,13 @@ export default class MapUICommand {
     /**
      * 战报查询
      */
-    public qryWarReport(): void {
-        let sendData: any = {
+    public qryWarReport(token: NetCancelToken = null): void {
+        let sendData = {
             name: ServerConfig.war_report,
             msg: {
             }
         };
-        NetManager.getInstance().send(sendData);
+        NetManager.getInstance().send(sendData, {}, false, NetNodeType.BaseServer, token);
     }
 
 
@@ -236,7 +239,7 @@ export default class MapUICommand {
      * 读取
      */
     public warRead(id: number = 0): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.war_read,
             msg: {
                 id: id,
@@ -246,7 +249,7 @@ export default class MapUICommand {
     }
 
     public interiorCollect(): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.interior_collect,
             msg: {
             }
@@ -255,7 +258,7 @@ export default class MapUICommand {
     }
 
     public interiorOpenCollect(): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.interior_openCollect,
             msg: {
             }
@@ -264,7 +267,7 @@ export default class MapUICommand {
     }
     
     public interiorTransform(from:number[],to:number[]): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.interior_transform,
             msg: {
                 from:from,
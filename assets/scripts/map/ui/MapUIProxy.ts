@@ -777,6 +777,32 @@ export default class MapUIProxy {
     }
 
 
+    /**导出设施和战报，城池加成由设施配置计算，不导出*/
+    public dumpState(): any {
+        let facilitys = {};
+        this._myFacility.forEach((list: Map<number, Facility>, cityId: number) => {
+            facilitys[cityId] = Array.from(list.values());
+        });
+        return { facilitys: facilitys, warReports: Array.from(this._warReport.values()) };
+    }
+
+    public restoreState(data: any): void {
+        this.clearData();
+        for (let cityId in data.facilitys) {
+            let list: Map<number, Facility> = new Map<number, Facility>();
+            data.facilitys[cityId].forEach((facility: any) => {
+                list.set(facility.type, Object.assign(new Facility(), facility));
+            });
+            this._myFacility.set(Number(cityId), list);
+        }
+        data.warReports.forEach((report: any) => {
+            if (report) {
+                this._warReport.set(report.id, Object.assign(new WarReport(), report));
+            }
+        });
+    }
+
+
     public isReadNum(): number {
         var num = 0;
         var arr = this.getWarReport();
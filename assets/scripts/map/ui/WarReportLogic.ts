@@ -15,6 +15,7 @@ import { EventMgr } from '../../utils/EventMgr';
 import ListLogic from '../../utils/ListLogic';
 import { AudioManager } from '../../common/AudioManager';
 import { LogicEvent } from '../../common/LogicEvent';
+import { NetCancelToken } from '../../network/NetCancel';
 
 @ccclass('WarReportLogic')
 export default class WarReportLogic extends Component {
@@ -25,8 +26,10 @@ export default class WarReportLogic extends Component {
     @property(Prefab)
     warPortDesPrefab: Prefab = null;
     private _warPortDesNode:Node = null;
+    private _cancelToken:NetCancelToken = null;         // 关闭时取消还没回包的查询
 
     protected onEnable():void{
+        this._cancelToken = new NetCancelToken();
         EventMgr.on(LogicEvent.upateWarReport, this.initView, this);
         EventMgr.on(LogicEvent.clickWarReport, this.openWarPortDes, this);
         EventMgr.on(LogicEvent.closeReport, this.close, this);
@@ -35,6 +38,7 @@ export default class WarReportLogic extends Component {
     
     protected onDisable():void{
         EventMgr.targetOff(this);
+        this._cancelToken.cancel();
     }
 
     private close() {
@@ -56,7 +60,7 @@ export default class WarReportLogic extends Component {
 
     public updateView():void{
         this.initView();
-        MapUICommand.getInstance().qryWarReport();
+        MapUICommand.getInstance().qryWarReport(this._cancelToken);
     }
 
     protected openWarPortDes(data:WarReport):void{
@@ -0,0 +1,50 @@
+/**
+ * 取消令牌，界面关闭时取消还没回包的请求
+ *     this._cancelToken = new NetCancelToken();
+ *     NetManager.getInstance().send(sendData, {}, false, NetNodeType.BaseServer, this._cancelToken);
+ *     ...
+ *     this._cancelToken.cancel();
+ * 取消后请求不再发送，回包不再派发，send返回的Promise以NetErrorType.Cancelled reject
+ */
+export class NetCancelToken {
+    protected _cancelled: boolean = false;
+    protected _listeners: { callback: Function, target: any }[] = [];
+
+    public get cancelled(): boolean {
+        return this._cancelled;
+    }
+
+    public cancel(): void {
+        if (this._cancelled) {
+            return;
+        }
+        this._cancelled = true;
+
+        let listeners = this._listeners;
+        this._listeners = [];
+        for (let i = 0; i < listeners.length; i++) {
+            listeners[i].callback.call(listeners[i].target);
+        }
+    }
+
+    /**
+     * 监听取消，已经取消的直接回调
+     * @param callback
+     * @param target 用于remove
+     */
+    public add(callback: Function, target: any): void {
+        if (this._cancelled) {
+            callback.call(target);
+            return;
+        }
+        this._listeners.push({ callback: callback, target: target });
+    }
+
+    public remove(target: any): void {
+        for (let i = this._listeners.length - 1; i >= 0; i--) {
+            if (this._listeners[i].target == target) {
+                this._listeners.splice(i, 1);
+            }
+        }
+    }
+}
@@ -0,0 +1,174 @@
+import { INetMiddleware, NetContext } from "./NetMiddleware";
+import { NetManager } from "./socket/NetManager";
+import { NetConnectOptions, NetNodeState, NetNodeType } from "./socket/NetNode";
+import { NetEvent } from "./socket/NetInterface";
+import { NetTimer, NetTimerData } from "./socket/NetTimer";
+import { EventMgr } from "../utils/EventMgr";
+import DateUtil from "../utils/DateUtil";
+
+
+// 一条诊断记录
+interface NetDiagRecord {
+    time: number,
+    text: string,
+}
+
+
+/**
+ * 网络诊断数据，供调试浮层显示
+ * 记录最近的超时、重连，统计各接口的推送频率；等待中的请求和连接状态直接从NetNode读取
+ * 用于区分服务器卡顿(请求等待时间长、RTT高)和客户端问题(请求没发出、推送没处理)
+ */
+export class NetDiagnostics implements INetMiddleware {
+    private static _instance: NetDiagnostics = null;
+    public static getInstance(): NetDiagnostics {
+        if (this._instance == null) {
+            this._instance = new NetDiagnostics();
+        }
+        return this._instance;
+    }
+
+    protected _running: boolean = false;
+    protected _maxRecords: number = 8;
+    protected _rateWindow: number = 10*1000;                                // 推送频率统计窗口
+    protected _timeouts: NetDiagRecord[] = [];
+    protected _reconnects: NetDiagRecord[] = [];
+    protected _pushTimes: Map<string, number[]> = new Map<string, number[]>();
+
+    public get running(): boolean {
+        return this._running;
+    }
+
+    public start(): void {
+        if (this._running) {
+            return;
+        }
+        this._running = true;
+        NetManager.getInstance().use(this);
+        EventMgr.on(NetEvent.ServerTimeOut, this.onTimeOut, this);
+        EventMgr.on(NetEvent.ServerReConnecting, this.onReConnecting, this);
+        EventMgr.on(NetEvent.ServerReconnected, this.onReconnected, this);
+        EventMgr.on(NetEvent.ServerReconnectGaveUp, this.onReconnectGaveUp, this);
+        EventMgr.on(NetEvent.ServerFailover, this.onFailover, this);
+    }
+
+    public stop(): void {
+        if (!this._running) {
+            return;
+        }
+        this._running = false;
+        NetManager.getInstance().removeMiddleware(this);
+        EventMgr.targetOff(this);
+    }
+
+    public clear(): void {
+        this._timeouts.length = 0;
+        this._reconnects.length = 0;
+        this._pushTimes.clear();
+    }
+
+    //只统计推送，请求的回包已经在等待列表里
+    public onReceive(ctx: NetContext): void {
+        if (ctx.req != null) {
+            return;
+        }
+        let key = NetNodeType[ctx.server] + " " + ctx.name;
+        if (!this._pushTimes.has(key)) {
+            this._pushTimes.set(key, []);
+        }
+        let now = Date.now();
+        let times = this._pushTimes.get(key);
+        times.push(now);
+        this.pruneTimes(times, now);
+    }
+
+    /**
+     * 生成诊断文本
+     */
+    public getReport(): string {
+        let now = Date.now();
+        let lines: string[] = [];
+        lines.push("RTT: " + DateUtil.getLatency() + "ms  时钟偏差: " + DateUtil.getClockSkew() + "ms");
+
+        let nodes = NetManager.getInstance().getNodes();
+        for (let i = 0; i < nodes.length; i++) {
+            let node = nodes[i];
+            let requests = node.getPendingRequests();
+            lines.push("");
+            lines.push("[" + NetNodeType[node.type] + "] " + NetNodeState[node.state]
+                + "  重连: " + node.reconnectTimes
+                + "  等待回包: " + requests.length
+                + "  排队: " + node.getScheduler().length);
+            for (let j = 0; j < requests.length; j++) {
+                let req = requests[j];
+                lines.push("  " + req.rspName + " #" + req.seq + " " + (now - req.startTime) + "ms");
+            }
+        }
+
+        lines.push("");
+        lines.push("推送(次/秒):");
+        this._pushTimes.forEach((times, key) => {
+            this.pruneTimes(times, now);
+            if (times.length > 0) {
+                lines.push("  " + key + " " + (times.length * 1000 / this._rateWindow).toFixed(1));
+            }
+        });
+
+        lines.push("");
+        lines.push("最近超时:");
+        this.appendRecords(lines, this._timeouts, now);
+        lines.push("最近重连:");
+        this.appendRecords(lines, this._reconnects, now);
+        return lines.join("\n");
+    }
+
+    //只保留统计窗口内的时间
+    protected pruneTimes(times: number[], now: number): void {
+        while (times.length > 0 && now - times[0] > this._rateWindow) {
+            times.shift();
+        }
+    }
+
+    protected appendRecords(lines: string[], records: NetDiagRecord[], now: number): void {
+        for (let i = records.length - 1; i >= 0; i--) {
+            lines.push("  " + Math.floor((now - records[i].time) / 1000) + "s前 " + records[i].text);
+        }
+    }
+
+    protected addRecord(records: NetDiagRecord[], text: string): void {
+        records.push({ time: Date.now(), text: text });
+        if (records.length > this._maxRecords) {
+            records.shift();
+        }
+    }
+
+    protected getNodeName(timer: NetTimer): string {
+        let nodes = NetManager.getInstance().getNodes();
+        for (let i = 0; i < nodes.length; i++) {
+            if (nodes[i].getTimer() == timer) {
+                return NetNodeType[nodes[i].type];
+            }
+        }
+        return "";
+    }
+
+    protected onTimeOut(data: NetTimerData, timer: NetTimer): void {
+        this.addRecord(this._timeouts, this.getNodeName(timer) + " " + data.name + " #" + data.seq);
+    }
+
+    protected onReConnecting(times: number, type: NetNodeType): void {
+        this.addRecord(this._reconnects, NetNodeType[type] + " 第" + times + "次重连");
+    }
+
+    protected onReconnected(type: NetNodeType): void {
+        this.addRecord(this._reconnects, NetNodeType[type] + " 重连成功");
+    }
+
+    protected onReconnectGaveUp(times: number, type: NetNodeType): void {
+        this.addRecord(this._reconnects, NetNodeType[type] + " 重连" + times + "次后放弃");
+    }
+
+    protected onFailover(options: NetConnectOptions, type: NetNodeType): void {
+        this.addRecord(this._reconnects, NetNodeType[type] + " 切换线路 " + options.url);
+    }
+}
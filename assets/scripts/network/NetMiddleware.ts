@@ -0,0 +1,128 @@
+// 请求通道
+export enum NetChannel {
+    Socket,
+    Http,
+}
+
+
+/**
+ * 一次请求的上下文，在中间件之间传递
+ * 推送没有请求，req为null
+ */
+export class NetContext {
+    public channel: NetChannel;
+    public server: number = -1;             // socket为NetNodeType，http为-1
+    public name: string = "";               // 接口名
+    public req: any = null;                 // socket为{name, msg, seq}，http为{url, params, method, headers}
+    public rsp: any = null;                 // 回包
+    public otherData: any = null;
+    public error: any = null;               // 失败时为NetError
+    public startTime: number = 0;
+    public data: any = {};                  // 中间件自己的数据，如耗时统计
+
+    constructor(channel: NetChannel, name: string, req: any, otherData: any = null) {
+        this.channel = channel;
+        this.name = name;
+        this.req = req;
+        this.otherData = otherData;
+        this.startTime = Date.now();
+    }
+}
+
+
+/**
+ * 中间件
+ * 发送按注册顺序执行，接收和失败按相反顺序执行
+ */
+export interface INetMiddleware {
+    onSend?(ctx: NetContext): void;         // 发送前，可以修改ctx.req；设置了ctx.rsp则不再发送，直接作为回包
+    onReceive?(ctx: NetContext): void;      // 派发给Command前，可以修改ctx.rsp
+    onError?(ctx: NetContext): void;        // 超时、断开、错误码等失败
+}
+
+
+export class NetMiddlewareChain {
+    protected _list: INetMiddleware[] = [];
+
+    public use(middleware: INetMiddleware): void {
+        if (this._list.indexOf(middleware) < 0) {
+            this._list.push(middleware);
+        }
+    }
+
+    public remove(middleware: INetMiddleware): void {
+        let index = this._list.indexOf(middleware);
+        if (index >= 0) {
+            this._list.splice(index, 1);
+        }
+    }
+
+    public clear(): void {
+        this._list.length = 0;
+    }
+
+    public send(ctx: NetContext): void {
+        let list = this._list.concat();
+        for (let i = 0; i < list.length; i++) {
+            if (list[i].onSend) {
+                this.call(() => { list[i].onSend(ctx); });
+            }
+            if (ctx.rsp) {
+                //已经有回包了，后面的中间件不用处理
+                break;
+            }
+        }
+    }
+
+    public receive(ctx: NetContext): void {
+        let list = this._list.concat();
+        for (let i = list.length - 1; i >= 0; i--) {
+            if (list[i].onReceive) {
+                this.call(() => { list[i].onReceive(ctx); });
+            }
+        }
+    }
+
+    public error(ctx: NetContext): void {
+        let list = this._list.concat();
+        for (let i = list.length - 1; i >= 0; i--) {
+            if (list[i].onError) {
+                this.call(() => { list[i].onError(ctx); });
+            }
+        }
+    }
+
+    //中间件出错不影响收发
+    protected call(func: Function): void {
+        try {
+            func();
+        } catch (error) {
+            console.log("NetMiddleware error:", error);
+        }
+    }
+}
+
+
+/**
+ * 打印收发日志和耗时
+ *     NetManager.getInstance().use(new NetLogMiddleware());
+ */
+export class NetLogMiddleware implements INetMiddleware {
+    protected _ignoreNames: string[] = ["heartbeat"];
+
+    public onSend(ctx: NetContext): void {
+        if (this._ignoreNames.indexOf(ctx.name) < 0) {
+            console.log("[net send]", ctx.name, ctx.req);
+        }
+    }
+
+    public onReceive(ctx: NetContext): void {
+        if (this._ignoreNames.indexOf(ctx.name) < 0) {
+            console.log("[net recv]", ctx.name, ctx.req ? (Date.now() - ctx.startTime) + "ms" : "push", ctx.rsp);
+        }
+    }
+
+    public onError(ctx: NetContext): void {
+        console.log("[net error]", ctx.name, ctx.error);
+    }
+}
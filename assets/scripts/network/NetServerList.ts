@@ -0,0 +1,157 @@
+import { LocalCache } from "../utils/LocalCache";
+
+
+// 一组网关地址
+export interface ServerEndpoint {
+    name: string,               // 线路名，LocalCache按此记住上次使用的线路
+    serverUrl: string,          // 游戏服务器
+    chatServerUrl: string,      // 聊天服务器
+    webUrl: string,             // http服务器
+    weight: number,             // 权重，越大越容易被选中，用于分流
+}
+
+
+// 探测结果
+export interface ServerProbe {
+    endpoint: ServerEndpoint,
+    ok: boolean,
+    latency: number,            // 建立连接耗时(毫秒)，失败为-1
+}
+
+
+/**
+ * 网关列表
+ * 连接前探测所有线路，按可用性排序：上次使用的可用线路优先，其余可用线路按权重随机，不可用的放最后；
+ * 排序结果交给NetManager.setFailover，当前线路重连次数用完后依次切换
+ */
+export class NetServerList {
+    private static _instance: NetServerList = null;
+    public static getInstance(): NetServerList {
+        if (this._instance == null) {
+            this._instance = new NetServerList();
+        }
+        return this._instance;
+    }
+
+    protected _list: ServerEndpoint[] = [];
+    protected _current: ServerEndpoint = null;
+
+    public setList(list: ServerEndpoint[]): void {
+        this._list = list.concat();
+    }
+
+    public getList(): ServerEndpoint[] {
+        return this._list;
+    }
+
+    public get current(): ServerEndpoint {
+        return this._current;
+    }
+
+    /**
+     * 切换到线路，并记住下次优先使用
+     * @param endpoint
+     */
+    public setCurrent(endpoint: ServerEndpoint): void {
+        this._current = endpoint;
+        LocalCache.setServerEndpoint(endpoint.name);
+    }
+
+    public findByUrl(serverUrl: string): ServerEndpoint {
+        for (let i = 0; i < this._list.length; i++) {
+            if (this._list[i].serverUrl == serverUrl) {
+                return this._list[i];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 探测所有线路，只有一条线路时不探测
+     * @param timeout 单条线路超时(毫秒)
+     * @param createWebSocket 自定义WebSocket，与NetConnectOptions.createWebSocket相同
+     * @returns 排好序的线路
+     */
+    public probe(timeout: number = 3000, createWebSocket: (url: string) => WebSocket = null): Promise<ServerEndpoint[]> {
+        if (this._list.length <= 1) {
+            return Promise.resolve(this._list.concat());
+        }
+
+        let probes = this._list.map((endpoint) => {
+            return this.probeOne(endpoint, timeout, createWebSocket);
+        });
+        return Promise.all(probes).then((results) => {
+            console.log("NetServerList probe:", results);
+            return this.sort(results);
+        });
+    }
+
+    // 能建立WebSocket连接就算可用，连上后立即断开
+    protected probeOne(endpoint: ServerEndpoint, timeout: number, createWebSocket: (url: string) => WebSocket): Promise<ServerProbe> {
+        return new Promise((resolve) => {
+            let startTime = Date.now();
+            let ws: WebSocket = null;
+            let timer = null;
+            let done = (ok: boolean) => {
+                if (timer === null) {
+                    return;
+                }
+                clearTimeout(timer);
+                timer = null;
+                ws.onopen = null;
+                ws.onerror = null;
+                ws.onclose = null;
+                ws.close();
+                resolve({ endpoint: endpoint, ok: ok, latency: ok ? Date.now() - startTime : -1 });
+            };
+
+            try {
+                ws = createWebSocket ? createWebSocket(endpoint.serverUrl) : new WebSocket(endpoint.serverUrl);
+            } catch (e) {
+                resolve({ endpoint: endpoint, ok: false, latency: -1 });
+                return;
+            }
+            timer = setTimeout(() => { done(false); }, timeout);
+            ws.onopen = () => { done(true); };
+            ws.onerror = () => { done(false); };
+            ws.onclose = () => { done(false); };
+        });
+    }
+
+    protected sort(results: ServerProbe[]): ServerEndpoint[] {
+        let lastName = LocalCache.getServerEndpoint();
+        let first: ServerEndpoint = null;
+        let healthy: ServerEndpoint[] = [];
+        let broken: ServerEndpoint[] = [];
+        for (let i = 0; i < results.length; i++) {
+            let endpoint = results[i].endpoint;
+            if (!results[i].ok) {
+                broken.push(endpoint);
+            } else if (endpoint.name == lastName) {
+                first = endpoint;
+            } else {
+                healthy.push(endpoint);
+            }
+        }
+
+        let list: ServerEndpoint[] = first ? [first] : [];
+        //按权重随机抽取，权重越大越靠前
+        while (healthy.length > 0) {
+            let total = 0;
+            for (let i = 0; i < healthy.length; i++) {
+                total += Math.max(healthy[i].weight, 0);
+            }
+            let index = 0;
+            let rand = Math.random() * total;
+            for (let i = 0; i < healthy.length; i++) {
+                rand -= Math.max(healthy[i].weight, 0);
+                if (rand < 0) {
+                    index = i;
+                    break;
+                }
+            }
+            list.push(healthy.splice(index, 1)[0]);
+        }
+        return list.concat(broken);
+    }
+}
@@ -1,6 +1,9 @@
 import { _decorator } from 'cc';
-import { NetEvent } from "../socket/NetInterface";
+import { NetError, NetErrorType, NetEvent } from "../socket/NetInterface";
 import { EventMgr } from '../../utils/EventMgr';
+import { Tools } from '../../utils/Tools';
+import { NetChannel, NetContext, NetMiddlewareChain } from "../NetMiddleware";
+import { NetCancelToken } from "../NetCancel";
 
 
 export enum HttpInvokeType {
@@ -8,22 +11,54 @@ export enum HttpInvokeType {
     POST
 }
 
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export type HttpHeaders = { [key: string]: string };
+
+
+// HttpManager.request的返回
+export interface HttpResult<T = any> {
+    status: number,             // http状态码
+    data: T,                    // 解析后的json，没有内容时为null
+}
+
+
+// http请求失败，request返回的Promise会以此reject
+export class HttpError extends NetError {
+    public status: number = 0;              // http状态码，没有收到回应时为0
+
+    constructor(type: NetErrorType, message: string, req: any = null, rsp: any = null, status: number = 0) {
+        super(type, message, req, rsp);
+        Object.setPrototypeOf(this, HttpError.prototype);
+        this.name = "HttpError";
+        this.status = status;
+    }
+}
+
 
 export class HttpInvoke {
     
     protected _receiveTime: number = 15000;               // 多久没收到数据断开
     protected _name:string = "";
     protected _otherData:any = null;
+    protected _middleware:NetMiddlewareChain = null;
+    protected _ctx:NetContext = null;
+    protected _token:NetCancelToken = null;
 
 
-    public init(name:string,_otherData:any = null):void{
+    public init(name:string,_otherData:any = null,middleware:NetMiddlewareChain = null):void{
         this._name = name;
         this._otherData = _otherData;
+        this._middleware = middleware ? middleware : new NetMiddlewareChain();
     }
 
 
 
     private onComplete(data:any):void{
+        if(this._token){
+            this._token.remove(this);
+        }
+
         var json = {};
         if(data){
             try {
@@ -32,13 +67,52 @@ export class HttpInvoke {
                 console.log("onComplete--e:",e)
             }
         }
+        if(this._ctx.error == null){
+            this._ctx.rsp = json;
+            this._middleware.receive(this._ctx);
+            json = this._ctx.rsp;
+        }
+
         EventMgr.emit(this._name, json,this._otherData);
         EventMgr.emit(NetEvent.ServerRequestSucess,json);
         
     }
 
+    private onError(type:NetErrorType, message:string):void{
+        this._ctx.error = new NetError(type, message, this._ctx.req);
+        this._middleware.error(this._ctx);
+    }
+
+
+    /**
+     * 发送请求
+     * @param token 取消后中断请求，不再派发回包，Promise以null resolve
+     */
+    public doSend(url:string,params:any,type:HttpInvokeType,token:NetCancelToken = null):Promise<any>{
+        if(token && token.cancelled){
+            return Promise.resolve(null);
+        }
+        this._token = token;
 
-    public doSend(url:string,params:any,type:HttpInvokeType):Promise<any>{
+        let method = type == HttpInvokeType.GET ? "GET" : "POST";
+        this._ctx = new NetContext(NetChannel.Http, this._name, {url: url, params: params, method: method, headers: {}}, this._otherData);
+        this._middleware.send(this._ctx);
+        if(this._ctx.rsp){
+            //中间件直接给了回包，不发请求
+            let rsp = this._ctx.rsp;
+            return new Promise((resolve) => {
+                setTimeout(() => {
+                    if(token && token.cancelled){
+                        resolve(null);
+                        return;
+                    }
+                    this.onComplete({responseText: JSON.stringify(rsp)});
+                    resolve(null);
+                }, 0);
+            });
+        }
+        url = this._ctx.req.url;
+        params = this._ctx.req.params;
        
         let xhr = new XMLHttpRequest();
         xhr.timeout = this._receiveTime;
@@ -53,6 +127,7 @@ export class HttpInvoke {
                         self.onComplete(xhr);
                         resolve(xhr);
                     } else {
+                        self.onError(NetErrorType.Closed, "http status " + xhr.status);
                         self.onComplete(null);
                         console.log("onreadystatechange 1111");
                         resolve(xhr);
@@ -62,14 +137,27 @@ export class HttpInvoke {
             };
             xhr.ontimeout = function () {
                 console.log("xhr.ontimeout");
+                self.onError(NetErrorType.TimeOut, "请求超时");
                 self.onComplete(null);
                 resolve(null);
             };
             xhr.onerror = function (e) {
                 console.log("xhr.onerror:", xhr.readyState, xhr.status, e);
+                self.onError(NetErrorType.Closed, "网络错误");
                 self.onComplete(null);
                 resolve(null);
             };
+
+            if(token){
+                token.add(function(){
+                    console.log("xhr cancel:", self._name);
+                    xhr.onreadystatechange = null;
+                    xhr.ontimeout = null;
+                    xhr.onerror = null;
+                    xhr.abort();
+                    resolve(null);
+                }, self);
+            }
             
             
             if(type == HttpInvokeType.GET){
@@ -87,4 +175,127 @@ export class HttpInvoke {
         return p;
 
     }
+
+
+
+    /**
+     * 发送一次json请求，不重试
+     * 成功resolve HttpResult；超时、断网、状态码不是2xx、json解析失败、回包code不为0、取消时以HttpError reject
+     * @param method
+     * @param url 完整地址，包括query
+     * @param headers
+     * @param body 请求内容，对象会转成json
+     * @param timeout 超时(毫秒)，0使用默认值
+     * @param token 取消令牌
+     */
+    public request(method:HttpMethod, url:string, headers:HttpHeaders, body:any = null, timeout:number = 0, token:NetCancelToken = null):Promise<HttpResult>{
+        this._ctx = new NetContext(NetChannel.Http, this._name, {url: url, params: body, method: method, headers: headers}, this._otherData);
+        if(token && token.cancelled){
+            return Promise.reject(new HttpError(NetErrorType.Cancelled, "请求已取消", this._ctx.req));
+        }
+
+        this._middleware.send(this._ctx);
+        if(this._ctx.rsp){
+            //中间件直接给了回包，不发请求
+            return new Promise((resolve, reject) => {
+                setTimeout(() => {
+                    if(token && token.cancelled){
+                        reject(new HttpError(NetErrorType.Cancelled, "请求已取消", this._ctx.req));
+                        return;
+                    }
+                    this.finish(200, this._ctx.rsp, resolve, (error:HttpError) => { this.rejectError(error, reject); });
+                }, 0);
+            });
+        }
+
+        let req = this._ctx.req;
+        let xhr = new XMLHttpRequest();
+        xhr.timeout = timeout > 0 ? timeout : this._receiveTime;
+
+        return new Promise((resolve, reject) => {
+            let fail = (error:HttpError) => {
+                if(token){
+                    token.remove(this);
+                }
+                this.rejectError(error, reject);
+            };
+
+            xhr.onload = () => {
+                if(token){
+                    token.remove(this);
+                }
+                if(xhr.status < 200 || xhr.status >= 300){
+                    fail(new HttpError(NetErrorType.Status, "http status " + xhr.status, req, xhr.responseText, xhr.status));
+                    return;
+                }
+
+                let json = null;
+                if(xhr.responseText){
+                    try {
+                        json = JSON.parse(xhr.responseText);
+                    } catch (e) {
+                        fail(new HttpError(NetErrorType.Parse, "回包不是json", req, xhr.responseText, xhr.status));
+                        return;
+                    }
+                }
+                this.finish(xhr.status, json, resolve, fail);
+            };
+            xhr.ontimeout = () => {
+                fail(new HttpError(NetErrorType.TimeOut, "请求超时", req));
+            };
+            xhr.onerror = () => {
+                fail(new HttpError(NetErrorType.Closed, "网络错误", req));
+            };
+
+            if(token){
+                token.add(() => {
+                    xhr.onload = null;
+                    xhr.ontimeout = null;
+                    xhr.onerror = null;
+                    xhr.abort();
+                    reject(new HttpError(NetErrorType.Cancelled, "请求已取消", req));
+                }, this);
+            }
+
+            xhr.open(req.method, req.url, true);
+            let hasType = false;
+            for (let key in req.headers) {
+                xhr.setRequestHeader(key, req.headers[key]);
+                if(key.toLowerCase() == "content-type"){
+                    hasType = true;
+                }
+            }
+
+            if(req.params == null){
+                xhr.send();
+            }else if(typeof req.params == "string"){
+                xhr.send(req.params);
+            }else{
+                if(!hasType){
+                    xhr.setRequestHeader("Content-Type", "application/json;charset=utf-8");
+                }
+                xhr.send(JSON.stringify(req.params));
+            }
+        });
+    }
+
+    // 失败先交给中间件
+    private rejectError(error:HttpError, reject:Function):void{
+        this._ctx.error = error;
+        this._middleware.error(this._ctx);
+        reject(error);
+    }
+
+    // 回包经过中间件，code不为0当作失败
+    private finish(status:number, json:any, resolve:Function, reject:Function):void{
+        this._ctx.rsp = json;
+        this._middleware.receive(this._ctx);
+        json = this._ctx.rsp;
+
+        if(json && typeof json.code == "number" && json.code != 0){
+            reject(new HttpError(NetErrorType.Code, Tools.getCodeStr(json.code), this._ctx.req, json, status));
+            return;
+        }
+        resolve({status: status, data: json});
+    }
 }
@@ -1,5 +1,24 @@
 import { _decorator } from 'cc';
-import { HttpInvoke,HttpInvokeType } from "./HttpInvoke";
+import { HttpError, HttpHeaders, HttpInvoke,HttpInvokeType, HttpMethod, HttpResult } from "./HttpInvoke";
+import { INetMiddleware, NetMiddlewareChain } from "../NetMiddleware";
+import { NetCancelToken } from "../NetCancel";
+import { NetErrorType } from "../socket/NetInterface";
+import { BackoffOptions, BackoffReconnectPolicy } from "../socket/NetReconnect";
+
+
+export interface HttpRequestOptions {
+    url: string,                    // 接口路径，拼在setWebUrl的地址后面；以http开头时直接使用
+    name?: string,                  // 接口名，用于中间件和日志，默认为url
+    method?: HttpMethod,            // 默认GET
+    query?: { [key: string]: any }, // 拼到url上的参数
+    body?: any,                     // 请求内容，对象会转成json
+    headers?: HttpHeaders,          // 和setHeader设置的公共header合并
+    timeout?: number,               // 超时(毫秒)
+    retry?: BackoffOptions,         // 失败重试，不传不重试
+    idempotent?: boolean,           // 是否可以重试，默认POST以外的方法可以
+    token?: NetCancelToken,
+    otherData?: any,
+}
 
 export class HttpManager {
     private static _instance: HttpManager = null;
@@ -12,24 +31,113 @@ export class HttpManager {
 
 
     protected _url:string = "";
+    protected _middleware:NetMiddlewareChain = new NetMiddlewareChain();
+    protected _headers:HttpHeaders = {};                // 每个request都带上的header
+
+    /**
+     * 添加收发中间件，和NetManager的中间件分开注册
+     * @param middleware
+     */
+    public use(middleware:INetMiddleware):void{
+        this._middleware.use(middleware);
+    }
+
+    public removeMiddleware(middleware:INetMiddleware):void{
+        this._middleware.remove(middleware);
+    }
+
     public setWebUrl(url:string):void{
         if(this._url == "" || this._url != url){
             this._url = url;
         } 
     }
 
+    /**
+     * 设置公共header，value为null时删除
+     */
+    public setHeader(key:string, value:string):void{
+        if(value == null){
+            delete this._headers[key];
+        }else{
+            this._headers[key] = value;
+        }
+    }
+
+
+    /**
+     * 发送json请求
+     *     HttpManager.getInstance().request<ServerInfo[]>({url: "/server/list", retry: {maxTimes: 3}}).then((result) => {...});
+     * 成功resolve HttpResult；失败以HttpError reject，不再通过EventMgr广播
+     * 可重试的请求在超时、断网、5xx、429时按retry退避重试
+     */
+    public request<T = any>(options:HttpRequestOptions):Promise<HttpResult<T>>{
+        let method = options.method ? options.method : "GET";
+        let url = this.buildUrl(options.url, options.query);
+        let headers = Object.assign({}, this._headers, options.headers);
+        let name = options.name ? options.name : options.url;
+        let idempotent = options.idempotent != undefined ? options.idempotent : method != "POST";
+        let policy = (idempotent && options.retry) ? new BackoffReconnectPolicy(options.retry) : null;
+        let token = options.token ? options.token : null;
+
+        return new Promise((resolve, reject) => {
+            let times = 0;
+            let attempt = () => {
+                let invoke = new HttpInvoke();
+                invoke.init(name, options.otherData, this._middleware);
+                invoke.request(method, url, headers, options.body, options.timeout, token).then(resolve, (error:HttpError) => {
+                    times++;
+                    let delay = (policy && this.canRetry(error)) ? policy.getDelay(times) : -1;
+                    if(delay < 0 || (token && token.cancelled)){
+                        reject(error);
+                        return;
+                    }
+                    console.log("http retry:", name, times, delay);
+                    setTimeout(attempt, delay);
+                });
+            };
+            attempt();
+        });
+    }
+
+    protected canRetry(error:HttpError):boolean{
+        if(error.type == NetErrorType.TimeOut || error.type == NetErrorType.Closed){
+            return true;
+        }
+        return error.type == NetErrorType.Status && (error.status >= 500 || error.status == 429);
+    }
+
+    protected buildUrl(apiUrl:string, query:{ [key: string]: any }):string{
+        let url = apiUrl.indexOf("http") == 0 ? apiUrl : this._url + apiUrl;
+        if(query){
+            let params: string[] = [];
+            for (let key in query) {
+                if(query[key] != undefined){
+                    params.push(encodeURIComponent(key) + "=" + encodeURIComponent(query[key]));
+                }
+            }
+            if(params.length > 0){
+                url += (url.indexOf("?") < 0 ? "?" : "&") + params.join("&");
+            }
+        }
+        return url;
+    }
+
+
+    /**
+     * 旧接口：总是resolve，结果通过EventMgr按name广播，新代码使用request
+     */
 
-    public doGet(name:string,apiUrl:string,params:any,otherData:any = null): Promise<any>{
+    public doGet(name:string,apiUrl:string,params:any,otherData:any = null,token:NetCancelToken = null): Promise<any>{
         var invoke = new HttpInvoke();
-        invoke.init(name,otherData);
-        return invoke.doSend(this._url + apiUrl,params,HttpInvokeType.GET);
+        invoke.init(name,otherData,this._middleware);
+        return invoke.doSend(this._url + apiUrl,params,HttpInvokeType.GET,token);
     }
 
 
 
-    public doPost(name:string,apiUrl:string,params:any,otherData:any = null): Promise<any>{
+    public doPost(name:string,apiUrl:string,params:any,otherData:any = null,token:NetCancelToken = null): Promise<any>{
         var invoke = new HttpInvoke();
-        invoke.init(name,otherData);
-        return invoke.doSend(this._url + apiUrl,params,HttpInvokeType.POST);
+        invoke.init(name,otherData,this._middleware);
+        return invoke.doSend(this._url + apiUrl,params,HttpInvokeType.POST,token);
     }
 }
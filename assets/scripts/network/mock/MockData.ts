@@ -0,0 +1,278 @@
+import { ServerConfig } from "../../config/ServerConfig";
+import { ServerArmy, ServerMapBuild, ServerMapCity, ServerNationMapConfig, ServerRole, ServerRoleRes, ServerWarReport } from "../../config/ServerProtocol";
+import { ArmyCmd } from "../../general/ArmyProxy";
+import { MockPush, MockServer, MockWebSocket, mockFail, mockOk } from "./MockServer";
+
+
+/**
+ * 模拟服务器的默认剧本
+ * 一个已创建角色的账号，一座主城，一支空闲军队
+ */
+export class MockData {
+    public static session: string = "mock_session";
+    public static token: string = "mock_token";
+    public static cityId: number = 1;
+    public static cityX: number = 100;
+    public static cityY: number = 100;
+    public static marchTime: number = 10;               // 行军时间(秒)
+
+    public static role: ServerRole = {
+        rid: 1, uid: 1, nickName: "mock", sex: 0, sid: 0, balance: 0, headId: 0, profile: "",
+    };
+
+    public static roleRes: ServerRoleRes = {
+        wood: 10000, iron: 10000, stone: 10000, grain: 10000, gold: 10000, decree: 20,
+        wood_yield: 100, iron_yield: 100, stone_yield: 100, grain_yield: 100, gold_yield: 100,
+        depot_capacity: 100000,
+    };
+
+    public static city: ServerMapCity = {
+        cityId: MockData.cityId, rid: 1, name: "mock", x: MockData.cityX, y: MockData.cityY, is_main: 1, level: 1,
+        cur_durable: 10000, max_durable: 10000, union_id: 0, parent_id: 0, union_name: "", occupy_time: 0,
+    };
+
+    public static armys: ServerArmy[] = [
+        {
+            id: 1, cityId: MockData.cityId, order: 1, generals: [0, 0, 0], soldiers: [0, 0, 0],
+            con_times: [0, 0, 0], con_cnts: [0, 0, 0], state: 0, cmd: 0,
+            from_x: MockData.cityX, from_y: MockData.cityY, to_x: MockData.cityX, to_y: MockData.cityY, start: 0, end: 0,
+        },
+    ];
+
+    public static builds: ServerMapBuild[] = [];
+
+    public static warReports: ServerWarReport[] = [];
+
+
+    /**
+     * 地图建筑配置，类型见MapResType
+     */
+    public static createConfs(): ServerNationMapConfig[] {
+        let confs: ServerNationMapConfig[] = [];
+        let names = { 50: "要塞", 51: "城市", 52: "林场", 53: "铁矿", 54: "石料", 55: "农田", 56: "要塞" };
+        for (let type = 50; type <= 56; type++) {
+            for (let level = 1; level <= 9; level++) {
+                confs.push({
+                    type: type, level: level, name: names[type],
+                    wood: type == 52 ? level * 100 : 0,
+                    iron: type == 53 ? level * 100 : 0,
+                    stone: type == 54 ? level * 100 : 0,
+                    grain: type == 55 ? level * 100 : 0,
+                    durable: level * 1000, defender: level,
+                });
+            }
+        }
+        return confs;
+    }
+
+    public static findArmy(id: number): ServerArmy {
+        for (let i = 0; i < MockData.armys.length; i++) {
+            if (MockData.armys[i].id == id) {
+                return MockData.armys[i];
+            }
+        }
+        return null;
+    }
+
+    public static inArea(x: number, y: number, msg: any): boolean {
+        return x >= msg.x && x < msg.x + msg.length && y >= msg.y && y < msg.y + msg.length;
+    }
+
+
+    /**
+     * 注册默认路由
+     * @param server
+     */
+    public static install(server: MockServer): void {
+        server.on(ServerConfig.heartbeat, (msg) => {
+            return mockOk({ ctime: msg.ctime, stime: Date.now() });
+        });
+
+        server.on(ServerConfig.account_login, (msg) => {
+            return mockOk({ uid: MockData.role.uid, username: msg.username, session: MockData.session });
+        });
+
+        server.on(ServerConfig.account_reLogin, (msg) => {
+            if (msg.session != MockData.session) {
+                return mockFail(6);
+            }
+            return mockOk({ session: msg.session });
+        });
+
+        server.on(ServerConfig.account_logout, () => {
+            return mockOk();
+        });
+
+        server.on(ServerConfig.role_enterServer, () => {
+            return mockOk({ role: MockData.role, role_res: MockData.roleRes, time: Date.now(), token: MockData.token });
+        });
+
+        server.on(ServerConfig.role_myProperty, () => {
+            return mockOk({
+                role_res: MockData.roleRes,
+                citys: [MockData.city],
+                generals: [],
+                armys: MockData.armys,
+                mr_builds: MockData.builds,
+            });
+        });
+
+        server.on(ServerConfig.role_myRoleRes, () => {
+            return mockOk({ role_res: MockData.roleRes });
+        });
+
+        server.on(ServerConfig.role_myCity, () => {
+            return mockOk({ citys: [MockData.city] });
+        });
+
+        server.on(ServerConfig.role_upPosition, (msg) => {
+            return mockOk({ x: msg.x, y: msg.y });
+        });
+
+        server.on(ServerConfig.role_posTagList, () => {
+            return mockOk({ pos_tags: [] });
+        });
+
+        server.on(ServerConfig.role_opPosTag, (msg) => {
+            return mockOk(msg);
+        });
+
+        server.on(ServerConfig.nationMap_config, () => {
+            return mockOk({ Confs: MockData.createConfs() });
+        });
+
+        server.on(ServerConfig.nationMap_scanBlock, (msg) => {
+            return mockOk({
+                mc_builds: MockData.inArea(MockData.city.x, MockData.city.y, msg) ? [MockData.city] : [],
+                mr_builds: MockData.builds.filter((build) => { return MockData.inArea(build.x, build.y, msg); }),
+                armys: MockData.armys.filter((army) => { return army.state > 0 && MockData.inArea(army.to_x, army.to_y, msg); }),
+            });
+        });
+
+        server.on(ServerConfig.army_myList, (msg) => {
+            return mockOk({ cityId: msg.cityId, armys: MockData.armys });
+        });
+
+        server.on(ServerConfig.army_myOne, (msg) => {
+            return mockOk({ army: MockData.armys[msg.order - 1] });
+        });
+
+        server.on(ServerConfig.army_assign, (msg, conn: MockWebSocket, server: MockServer) => {
+            let army = MockData.findArmy(msg.armyId);
+            if (army == null) {
+                return mockFail(1);
+            }
+
+            //出发，行军结束后推送到达
+            let now = Math.floor(Date.now() / 1000);
+            army.cmd = msg.cmd;
+            army.state = 1;
+            army.from_x = army.cmd == ArmyCmd.Return ? army.to_x : MockData.cityX;
+            army.from_y = army.cmd == ArmyCmd.Return ? army.to_y : MockData.cityY;
+            army.to_x = army.cmd == ArmyCmd.Return ? MockData.cityX : msg.x;
+            army.to_y = army.cmd == ArmyCmd.Return ? MockData.cityY : msg.y;
+            army.start = now;
+            army.end = now + MockData.marchTime;
+
+            //攻击的军队到达后再推送战报
+            let timeline: MockPush[] = [{
+                delay: MockData.marchTime * 1000,
+                name: ServerConfig.army_push,
+                msg: () => { return MockData.arrive(army); },
+            }];
+            if (army.cmd == ArmyCmd.Attack) {
+                let x = army.to_x, y = army.to_y;
+                timeline.push({
+                    delay: MockData.marchTime * 1000,
+                    name: ServerConfig.war_reportPush,
+                    msg: () => { return MockData.createWarReport(army, x, y); },
+                });
+            }
+            server.schedule(timeline);
+            return mockOk({ army: army });
+        });
+
+        server.on(ServerConfig.general_myGenerals, () => {
+            return mockOk({ generals: [] });
+        });
+
+        server.on(ServerConfig.skill_list, () => {
+            return mockOk({ list: [] });
+        });
+
+        server.on(ServerConfig.war_report, () => {
+            return mockOk({ list: MockData.warReports });
+        });
+
+        server.on(ServerConfig.city_facilities, (msg) => {
+            return mockOk({ cityId: msg.cityId, facilities: [] });
+        });
+
+        server.on(ServerConfig.interior_openCollect, () => {
+            return mockOk({ gold: 0, limit: 3, cur_times: 0, next_time: 0 });
+        });
+
+        server.on(ServerConfig.union_list, () => {
+            return mockOk({ list: [] });
+        });
+    }
+
+    /**
+     * 聊天服务器路由，聊天使用独立的连接，需要单独的MockServer
+     * @param server
+     */
+    public static installChat(server: MockServer): void {
+        server.on(ServerConfig.heartbeat, (msg) => {
+            return mockOk({ ctime: msg.ctime, stime: Date.now() });
+        });
+
+        server.on(ServerConfig.chat_login, (msg) => {
+            if (msg.token != MockData.token) {
+                return mockFail(6);
+            }
+            return mockOk({ rid: msg.rid, nickName: msg.nickName });
+        });
+
+        server.on(ServerConfig.chat_join, (msg) => {
+            return mockOk({ type: msg.type, id: msg.id });
+        });
+
+        server.on(ServerConfig.chat_exit, (msg) => {
+            return mockOk({ type: msg.type, id: msg.id });
+        });
+
+        server.on(ServerConfig.chat_history, (msg) => {
+            return mockOk({ type: msg.type, msgs: [] });
+        });
+
+        server.on(ServerConfig.chat_chat, (msg, conn: MockWebSocket, server: MockServer) => {
+            let chat = { rid: MockData.role.rid, nick_name: MockData.role.nickName, type: msg.type, msg: msg.msg, time: Date.now() };
+            server.push(ServerConfig.chat_push, chat);
+            return mockOk(chat);
+        });
+    }
+
+    /**攻击空地的战报，没有武将，只有一回合空数据*/
+    protected static createWarReport(army: ServerArmy, x: number, y: number): ServerWarReport {
+        let armyJson = JSON.stringify(army);
+        let report: ServerWarReport = {
+            id: MockData.warReports.length + 1, a_rid: MockData.role.rid, d_rid: 0,
+            b_a_army: armyJson, b_d_army: "{}", e_a_army: armyJson, e_d_army: "{}",
+            b_a_general: "[]", b_d_general: "[]", e_a_general: "[]", e_d_general: "[]",
+            rounds: "[]", result: 2, a_is_read: false, d_is_read: false,
+            destroy: 0, occupy: 0, x: x, y: y, ctime: Date.now(),
+        };
+        MockData.warReports.push(report);
+        return report;
+    }
+
+    /**到达后的军队状态*/
+    protected static arrive(army: ServerArmy): ServerArmy {
+        let cmd = army.cmd;
+        army.state = 0;
+        if (cmd == ArmyCmd.Return) {
+            army.cmd = ArmyCmd.Idle;
+        }
+        return JSON.parse(JSON.stringify(army));
+    }
+}
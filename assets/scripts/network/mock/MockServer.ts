@@ -0,0 +1,287 @@
+import * as crypto  from "../../libs/crypto/crypto"
+import * as gzip from "../../libs/gzip/gzip";
+import { convert } from "../../libs/convert";
+import { INetCodec, getNetCodec, packFrame, unpackFrame } from "../socket/NetCodec";
+import { bytesToHex, createNetCipher, hexToBytes, INetCipher, NetCipherVersion } from "../socket/NetCipher";
+import * as msgpack from "../../libs/msgpack";
+
+
+/**处理结果*/
+export interface MockReply {
+    code: number;
+    msg: any;
+}
+
+/**
+ * 路由处理函数
+ * msg为客户端请求的msg，返回值为回包，返回null则不回包
+ */
+export type MockHandler = (msg: any, conn: MockWebSocket, server: MockServer) => MockReply;
+
+/**时间轴上的推送*/
+export interface MockPush {
+    delay: number;              // 距离schedule调用的毫秒数
+    name: string;               // 推送接口名，如army.push
+    msg: any;                   // 推送内容，也可以是到时再生成内容的函数
+}
+
+
+export function mockOk(msg: any = {}): MockReply {
+    return { code: 0, msg: msg };
+}
+
+export function mockFail(code: number, msg: any = {}): MockReply {
+    return { code: code, msg: msg };
+}
+
+
+/**
+ * 模拟WebSocket，交给WebSock使用
+ * 收发的都是真实的线上数据：gzip压缩，握手后AES-CBC加密
+ */
+export class MockWebSocket {
+    public static CONNECTING: number = 0;
+    public static OPEN: number = 1;
+    public static CLOSING: number = 2;
+    public static CLOSED: number = 3;
+
+    public readyState: number = MockWebSocket.CONNECTING;
+    public binaryType: string = "arraybuffer";
+    public url: string = "";
+    public key: string = "";
+    public codec: INetCodec = null;             // 客户端通过url参数codec请求的编码
+    public cipherVersion: NetCipherVersion = NetCipherVersion.Legacy;  // 客户端通过url参数crypto请求的加密版本
+    public cipher: INetCipher = null;
+
+    public onopen: (event) => void = null;
+    public onmessage: (event) => void = null;
+    public onerror: (event) => void = null;
+    public onclose: (event) => void = null;
+
+    protected _server: MockServer = null;
+
+    constructor(server: MockServer, url: string) {
+        this._server = server;
+        this.url = url;
+        let match = url.match(/[?&]codec=([^&]+)/);
+        this.codec = match ? getNetCodec(match[1]) : null;
+        let cryptoMatch = url.match(/[?&]crypto=(\d+)/);
+        this.cipherVersion = cryptoMatch && Number(cryptoMatch[1]) == NetCipherVersion.Envelope ? NetCipherVersion.Envelope : NetCipherVersion.Legacy;
+        setTimeout(() => {
+            if (this.readyState != MockWebSocket.CONNECTING) {
+                return;
+            }
+            this.readyState = MockWebSocket.OPEN;
+            this.onopen && this.onopen({ type: "open" });
+            this._server.onConnect(this);
+        }, this._server.delay);
+    }
+
+    /**客户端 -> 服务端*/
+    public send(data: any): void {
+        if (this.readyState != MockWebSocket.OPEN) {
+            return;
+        }
+        //WebSock发送的是Int8Array
+        let view = new Uint8Array(data.buffer ? data.buffer : data);
+        let bytes = Array.prototype.slice.call(view, 0);
+        setTimeout(() => {
+            this._server.onFrame(this, bytes);
+        }, this._server.delay);
+    }
+
+    /**服务端 -> 客户端*/
+    public recv(bytes: number[]): void {
+        if (this.readyState != MockWebSocket.OPEN) {
+            return;
+        }
+        let buffer = new Uint8Array(bytes).buffer;
+        setTimeout(() => {
+            if (this.readyState == MockWebSocket.OPEN) {
+                this.onmessage && this.onmessage({ data: buffer });
+            }
+        }, this._server.delay);
+    }
+
+    public close(code?: number, reason?: string): void {
+        if (this.readyState == MockWebSocket.CLOSED) {
+            return;
+        }
+        this.readyState = MockWebSocket.CLOSED;
+        this._server.onDisconnect(this);
+        setTimeout(() => {
+            this.onclose && this.onclose({ type: "close", code: code, reason: reason });
+        }, 0);
+    }
+}
+
+
+/**
+ * 本地模拟slgserver
+ * 使用方式：
+ *     let server = new MockServer();
+ *     MockData.install(server);
+ *     NetManager.getInstance().connect({ url: "ws://mock", createWebSocket: server.createWebSocket });
+ */
+export class MockServer {
+    public delay: number = 30;                  // 模拟网络延迟(毫秒)
+    public compressMin: number = 256;           // 使用codec时小于该字节数的包不压缩
+
+    protected _handlers: Map<string, MockHandler> = new Map<string, MockHandler>();
+    protected _conns: MockWebSocket[] = [];
+    protected _timers: any[] = [];
+
+    /**交给NetConnectOptions.createWebSocket*/
+    public createWebSocket = (url: string): any => {
+        return new MockWebSocket(this, url);
+    }
+
+    /**
+     * 注册路由
+     * @param name 接口名，如ServerConfig.army_assign
+     * @param handler
+     */
+    public on(name: string, handler: MockHandler): void {
+        this._handlers.set(name, handler);
+    }
+
+    public off(name: string): void {
+        this._handlers.delete(name);
+    }
+
+    /**
+     * 推送给所有连接
+     * @param name 推送接口名
+     * @param msg
+     */
+    public push(name: string, msg: any): void {
+        for (let i = 0; i < this._conns.length; i++) {
+            this.sendJson(this._conns[i], { name: name, seq: 0, code: 0, msg: msg });
+        }
+    }
+
+    /**
+     * 按时间轴推送
+     * @param timeline
+     */
+    public schedule(timeline: MockPush[]): void {
+        timeline.forEach((item) => {
+            let id = setTimeout(() => {
+                this._timers.splice(this._timers.indexOf(id), 1);
+                this.push(item.name, typeof item.msg == "function" ? item.msg() : item.msg);
+            }, item.delay);
+            this._timers.push(id);
+        });
+    }
+
+    /**取消所有未推送的时间轴*/
+    public clearSchedule(): void {
+        this._timers.forEach((id) => {
+            clearTimeout(id);
+        });
+        this._timers.length = 0;
+    }
+
+    /**断开所有连接，用于测试断线重连*/
+    public kickAll(): void {
+        let conns = this._conns.concat();
+        conns.forEach((conn) => {
+            conn.close(1000, "kick");
+        });
+    }
+
+    public onConnect(conn: MockWebSocket): void {
+        this._conns.push(conn);
+
+        //第一个包是明文握手，带上AES的key
+        conn.key = this.randomKey();
+        let handMsg: any = { key: conn.key };
+        if (conn.codec) {
+            handMsg.codec = conn.codec.name;
+        }
+        if (conn.cipherVersion != NetCipherVersion.Legacy) {
+            handMsg.crypto = conn.cipherVersion;
+        }
+        conn.cipher = createNetCipher(conn.cipherVersion, conn.key);
+        let hand = JSON.stringify({ name: "handshake", msg: handMsg });
+        conn.recv(gzip.zip(new convert().stringToByte(hand), { level: 9 }));
+    }
+
+    public onDisconnect(conn: MockWebSocket): void {
+        let index = this._conns.indexOf(conn);
+        if (index >= 0) {
+            this._conns.splice(index, 1);
+        }
+    }
+
+    public onFrame(conn: MockWebSocket, bytes: number[]): void {
+        let req = null;
+        try {
+            if (conn.codec) {
+                req = unpackFrame(conn.codec, bytes, conn.cipher);
+            } else {
+                let text = new convert().byteToString(gzip.unzip(bytes));
+                req = JSON.parse(this.decrypt(text, conn));
+            }
+        } catch (error) {
+            console.log("MockServer frame error:", error);
+            return;
+        }
+
+        let reply: MockReply = null;
+        let handler = this._handlers.get(req.name);
+        if (handler) {
+            reply = handler(req.msg, conn, this);
+        } else {
+            console.log("MockServer no handler:", req.name);
+            reply = mockFail(1);
+        }
+
+        if (reply) {
+            this.sendJson(conn, { name: req.name, seq: req.seq, code: reply.code, msg: reply.msg });
+        }
+    }
+
+    protected sendJson(conn: MockWebSocket, json: any): void {
+        if (conn.codec) {
+            conn.recv(packFrame(conn.codec, json, conn.cipher, this.compressMin));
+            return;
+        }
+        let text = this.encrypt(JSON.stringify(json), conn);
+        conn.recv(gzip.zip(text, { level: 9 }));
+    }
+
+    protected randomKey(): string {
+        let chars = "0123456789abcdefghijklmnopqrstuvwxyz";
+        let key = "";
+        for (let i = 0; i < 16; i++) {
+            key += chars[Math.floor(Math.random() * chars.length)];
+        }
+        return key;
+    }
+
+    protected encrypt(data: string, conn: MockWebSocket): string {
+        if (conn.cipherVersion != NetCipherVersion.Legacy) {
+            return bytesToHex(conn.cipher.encrypt(msgpack.utf8ToBytes(data)));
+        }
+        let keyStr = conn.key;
+        let key = crypto.enc.Utf8.parse(keyStr);
+        let iv = crypto.enc.Utf8.parse(keyStr);
+        let srcs = crypto.enc.Utf8.parse(data);
+        let encrypted = crypto.AES.encrypt(srcs, key, { iv: iv, mode: crypto.mode.CBC, padding: crypto.pad.ZeroPadding });
+        return encrypted.ciphertext.toString();
+    }
+
+    protected decrypt(message: string, conn: MockWebSocket): string {
+        if (conn.cipherVersion != NetCipherVersion.Legacy) {
+            return msgpack.bytesToUtf8(conn.cipher.decrypt(hexToBytes(message)));
+        }
+        let keyStr = conn.key;
+        let key = crypto.enc.Utf8.parse(keyStr);
+        let iv = crypto.enc.Utf8.parse(keyStr);
+        let encryptedHexStr = crypto.enc.Hex.parse(message);
+        let srcs = crypto.Base64.stringify(encryptedHexStr);
+        let decrypt = crypto.AES.decrypt(srcs, key, { iv: iv, mode: crypto.mode.CBC, padding: crypto.pad.ZeroPadding });
+        return decrypt.toString(crypto.enc.Utf8).replaceAll("\u0000", "");
+    }
+}
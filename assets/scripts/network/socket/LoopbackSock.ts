@@ -0,0 +1,145 @@
+import { ISocket, NetData } from "./NetInterface";
+
+
+/**
+ * 本地处理函数
+ * req为客户端发出的json({name, msg, seq})，返回值不为空时作为回包发给客户端
+ */
+export type LoopbackHandler = (req: any, sock: LoopbackSock) => any;
+
+
+/**
+ * 进程内回环传输层
+ * 不经过gzip、AES和WebSocket，json直接交给本地处理函数，
+ * 用于离线开发和无服务器的流程测试：
+ *     NetManager.getInstance().setSocket(new LoopbackSock(handler));
+ */
+export class LoopbackSock implements ISocket {
+    private _handler: LoopbackHandler = null;
+    private _delay: number = 0;                 // 模拟网络延迟(毫秒)
+    private _connected: boolean = false;
+
+    /**
+     * @param handler 本地处理函数
+     * @param delay 模拟网络延迟(毫秒)
+     */
+    constructor(handler: LoopbackHandler, delay: number = 0) {
+        this._handler = handler;
+        this._delay = delay;
+    }
+
+    /**
+     * 按请求生成回包
+     * @param req 客户端请求
+     * @param msg 回包内容
+     * @param code 错误码
+     */
+    public static response(req: any, msg: any = {}, code: number = 0): any {
+        return { name: req.name, seq: req.seq, code: code, msg: msg };
+    }
+
+
+    onConnected(event): void {
+        console.log("loopback onConnected:", event);
+    }
+
+    onMessage(msg: NetData): void {
+
+    }
+
+    onJsonMessage(data: any) {
+
+    }
+
+    onGetKey() {
+
+    }
+
+    onHandShakeError(error: any) {
+
+    }
+
+    onFrameError(error: any) {
+
+    }
+
+    onError(event): void {
+        console.log("loopback onError:", event);
+    }
+
+    onClosed(event): void {
+        console.log("loopback onClosed:", event);
+    }
+
+    public isConnected(): boolean {
+        return this._connected;
+    }
+
+    connect(options: any) {
+        this.later(() => {
+            this._connected = true;
+            this.onConnected({ type: "open" });
+            //没有加密，直接完成握手
+            this.onGetKey();
+        });
+        return true;
+    }
+
+    send(buffer: NetData) {
+        console.log("loopback can only send json, use packAndSend");
+        return false;
+    }
+
+    /**
+     * 交给本地处理函数
+     * @param send_data
+     */
+    public packAndSend(send_data: any) {
+        if (!this._connected) {
+            return false;
+        }
+
+        //复制一份，避免处理函数和客户端共用对象
+        let req = JSON.parse(JSON.stringify(send_data));
+        this.later(() => {
+            let rsp = null;
+            try {
+                rsp = this._handler(req, this);
+            } catch (error) {
+                console.log("loopback handler error:", req.name, error);
+                return;
+            }
+
+            if (rsp) {
+                this.push(rsp);
+            }
+        });
+        return true;
+    }
+
+    /**
+     * 服务端下发消息(回包或推送)
+     * @param json
+     */
+    public push(json: any): void {
+        this.later(() => {
+            if (this._connected) {
+                this.onJsonMessage(JSON.parse(JSON.stringify(json)));
+            }
+        });
+    }
+
+    close(code?: number, reason?: string) {
+        if (!this._connected) {
+            return;
+        }
+        this._connected = false;
+        this.later(() => {
+            this.onClosed({ type: "close", code: code, reason: reason });
+        });
+    }
+
+    private later(func: Function): void {
+        setTimeout(func, this._delay);
+    }
+}
@@ -0,0 +1,279 @@
+import * as crypto from "../../libs/crypto/crypto";
+
+
+/**
+ * 加密版本
+ * 连接时通过url参数crypto请求，服务器在握手包里确认后启用，旧服务器不认识该参数时使用Legacy
+ */
+export enum NetCipherVersion {
+    Legacy = 0,                 // 握手key同时作为AES key和IV
+    Envelope = 1,               // 每条消息随机IV，AES-CBC(PKCS7)后用HMAC-SHA256校验
+}
+
+
+// 消息解密或校验失败
+export class NetCipherError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, NetCipherError.prototype);
+        this.name = "NetCipherError";
+    }
+}
+
+
+export interface INetCipher {
+    readonly version: NetCipherVersion;
+    encrypt(bytes: number[]): number[];
+    decrypt(bytes: number[]): number[];         // 失败时抛出NetCipherError
+}
+
+
+/**
+ * 旧版加密，只用于codec帧，旧协议的文本包仍由WebSock加解密
+ */
+export class LegacyCipher implements INetCipher {
+    public readonly version: NetCipherVersion = NetCipherVersion.Legacy;
+    protected _key: any = null;
+
+    constructor(key: string) {
+        this._key = crypto.enc.Utf8.parse(key);
+    }
+
+    public encrypt(bytes: number[]): number[] {
+        let encrypted = crypto.AES.encrypt(bytesToWords(bytes), this._key, { iv: this._key, mode: crypto.mode.CBC, padding: crypto.pad.PKCS7 });
+        return wordsToBytes(encrypted.ciphertext);
+    }
+
+    public decrypt(bytes: number[]): number[] {
+        let decrypted = null;
+        try {
+            let params = new crypto.lib.CipherParams({ ciphertext: bytesToWords(bytes) });
+            decrypted = crypto.AES.decrypt(params, this._key, { iv: this._key, mode: crypto.mode.CBC, padding: crypto.pad.PKCS7 });
+        } catch (error) {
+            throw new NetCipherError("解密失败");
+        }
+        if (decrypted.sigBytes < 0) {
+            //padding不对时sigBytes会变成负数
+            throw new NetCipherError("解密失败");
+        }
+        return wordsToBytes(decrypted);
+    }
+}
+
+
+const IV_SIZE = 16;
+const MAC_SIZE = 32;
+
+/**
+ * 消息格式：1字节版本 + 16字节随机IV + 密文 + 32字节HMAC-SHA256(版本 + IV + 密文)
+ * 加密和校验使用从握手key派生出的两个不同key
+ */
+export class EnvelopeCipher implements INetCipher {
+    public readonly version: NetCipherVersion = NetCipherVersion.Envelope;
+    protected _encKey: any = null;
+    protected _macKey: number[] = null;
+
+    constructor(key: string) {
+        let encKey = sha256(utf8Bytes("enc:" + key)).slice(0, 16);
+        this._encKey = bytesToWords(encKey);
+        this._macKey = sha256(utf8Bytes("mac:" + key));
+    }
+
+    public encrypt(bytes: number[]): number[] {
+        let iv = randomBytes(IV_SIZE);
+        let encrypted = crypto.AES.encrypt(bytesToWords(bytes), this._encKey, { iv: bytesToWords(iv), mode: crypto.mode.CBC, padding: crypto.pad.PKCS7 });
+        let body = [this.version].concat(iv, wordsToBytes(encrypted.ciphertext));
+        return body.concat(hmacSha256(this._macKey, body));
+    }
+
+    public decrypt(bytes: number[]): number[] {
+        if (bytes.length < 1 + IV_SIZE + 16 + MAC_SIZE || (bytes.length - 1 - IV_SIZE - MAC_SIZE) % 16 != 0) {
+            throw new NetCipherError("消息长度错误");
+        }
+        if (bytes[0] != this.version) {
+            throw new NetCipherError("加密版本不匹配:" + bytes[0]);
+        }
+
+        let body = bytes.slice(0, bytes.length - MAC_SIZE);
+        let mac = bytes.slice(bytes.length - MAC_SIZE);
+        if (!equalBytes(hmacSha256(this._macKey, body), mac)) {
+            throw new NetCipherError("消息校验失败");
+        }
+
+        let iv = body.slice(1, 1 + IV_SIZE);
+        let params = new crypto.lib.CipherParams({ ciphertext: bytesToWords(body.slice(1 + IV_SIZE)) });
+        let decrypted = crypto.AES.decrypt(params, this._encKey, { iv: bytesToWords(iv), mode: crypto.mode.CBC, padding: crypto.pad.PKCS7 });
+        if (decrypted.sigBytes < 0) {
+            throw new NetCipherError("解密失败");
+        }
+        return wordsToBytes(decrypted);
+    }
+}
+
+
+/**
+ * 按握手确认的版本创建
+ * @param version
+ * @param key 握手得到的key
+ */
+export function createNetCipher(version: NetCipherVersion, key: string): INetCipher {
+    if (version == NetCipherVersion.Envelope) {
+        return new EnvelopeCipher(key);
+    }
+    return new LegacyCipher(key);
+}
+
+
+export function bytesToHex(bytes: number[]): string {
+    let hex = "";
+    for (let i = 0; i < bytes.length; i++) {
+        hex += (bytes[i] < 16 ? "0" : "") + bytes[i].toString(16);
+    }
+    return hex;
+}
+
+export function hexToBytes(hex: string): number[] {
+    if (hex.length % 2 != 0 || /[^0-9a-fA-F]/.test(hex)) {
+        throw new NetCipherError("消息不是hex");
+    }
+    let bytes: number[] = [];
+    for (let i = 0; i < hex.length; i += 2) {
+        bytes.push(parseInt(hex.substr(i, 2), 16));
+    }
+    return bytes;
+}
+
+
+function utf8Bytes(str: string): number[] {
+    return wordsToBytes(crypto.enc.Utf8.parse(str));
+}
+
+//libs/crypto里的SHA256没有初始化常量表，结果不对，这里单独实现
+const SHA256_K: number[] = [];
+const SHA256_H: number[] = [];
+(function () {
+    let fraction = (n: number) => { return ((n - Math.floor(n)) * 0x100000000) | 0; };
+    let n = 2;
+    while (SHA256_K.length < 64) {
+        let prime = true;
+        for (let f = 2; f * f <= n; f++) {
+            if (n % f == 0) {
+                prime = false;
+                break;
+            }
+        }
+        if (prime) {
+            if (SHA256_H.length < 8) {
+                SHA256_H.push(fraction(Math.pow(n, 1 / 2)));
+            }
+            SHA256_K.push(fraction(Math.pow(n, 1 / 3)));
+        }
+        n++;
+    }
+})();
+
+function sha256(bytes: number[]): number[] {
+    let length = bytes.length;
+    let words: number[] = [];
+    for (let i = 0; i < length; i++) {
+        words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+    }
+    words[length >>> 2] |= 0x80 << (24 - (length % 4) * 8);
+    let total = (((length + 8) >>> 6) + 1) * 16;
+    for (let i = 0; i < total; i++) {
+        words[i] = words[i] | 0;
+    }
+    words[total - 2] = Math.floor(length / 0x20000000);
+    words[total - 1] = (length * 8) | 0;
+
+    let hash = SHA256_H.concat();
+    let w: number[] = [];
+    for (let offset = 0; offset < total; offset += 16) {
+        let a = hash[0], b = hash[1], c = hash[2], d = hash[3], e = hash[4], f = hash[5], g = hash[6], h = hash[7];
+        for (let i = 0; i < 64; i++) {
+            if (i < 16) {
+                w[i] = words[offset + i];
+            } else {
+                let x = w[i - 15];
+                let y = w[i - 2];
+                let s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+                let s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+                w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+            }
+            let S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+            let ch = (e & f) ^ (~e & g);
+            let t1 = (h + S1 + ch + SHA256_K[i] + w[i]) | 0;
+            let S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+            let maj = (a & b) ^ (a & c) ^ (b & c);
+            let t2 = (S0 + maj) | 0;
+            h = g; g = f; f = e; e = (d + t1) | 0;
+            d = c; c = b; b = a; a = (t1 + t2) | 0;
+        }
+        hash[0] = (hash[0] + a) | 0; hash[1] = (hash[1] + b) | 0;
+        hash[2] = (hash[2] + c) | 0; hash[3] = (hash[3] + d) | 0;
+        hash[4] = (hash[4] + e) | 0; hash[5] = (hash[5] + f) | 0;
+        hash[6] = (hash[6] + g) | 0; hash[7] = (hash[7] + h) | 0;
+    }
+
+    let out: number[] = [];
+    for (let i = 0; i < 32; i++) {
+        out.push((hash[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xFF);
+    }
+    return out;
+}
+
+function hmacSha256(key: number[], data: number[]): number[] {
+    let block = key.length > 64 ? sha256(key) : key.concat();
+    while (block.length < 64) {
+        block.push(0);
+    }
+    let ipad = block.map((b) => { return b ^ 0x36; });
+    let opad = block.map((b) => { return b ^ 0x5c; });
+    return sha256(opad.concat(sha256(ipad.concat(data))));
+}
+
+//比较耗时与内容无关
+function equalBytes(a: number[], b: number[]): boolean {
+    if (a.length != b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff == 0;
+}
+
+//优先使用安全随机数，原生平台没有时退回Math.random
+function randomBytes(size: number): number[] {
+    let bytes: number[] = [];
+    let g: any = typeof globalThis != "undefined" ? globalThis : window;
+    if (g.crypto && g.crypto.getRandomValues) {
+        let arr = new Uint8Array(size);
+        g.crypto.getRandomValues(arr);
+        for (let i = 0; i < size; i++) {
+            bytes.push(arr[i]);
+        }
+        return bytes;
+    }
+    for (let i = 0; i < size; i++) {
+        bytes.push(Math.floor(Math.random() * 256));
+    }
+    return bytes;
+}
+
+export function bytesToWords(bytes: number[]): any {
+    let words: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+        words[i >>> 2] |= (bytes[i] & 0xFF) << (24 - (i % 4) * 8);
+    }
+    return new crypto.lib.WordArray(words, bytes.length);
+}
+
+export function wordsToBytes(wordArray: any): number[] {
+    let bytes: number[] = [];
+    for (let i = 0; i < wordArray.sigBytes; i++) {
+        bytes.push((wordArray.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xFF);
+    }
+    return bytes;
+}
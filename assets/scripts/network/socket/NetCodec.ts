@@ -0,0 +1,106 @@
+import * as msgpack from "../../libs/msgpack";
+import * as gzip from "../../libs/gzip/gzip";
+import { INetCipher } from "./NetCipher";
+
+
+/**
+ * 消息编码
+ * 连接时通过url参数codec告诉服务器，服务器在握手包里确认后启用
+ */
+export interface INetCodec {
+    readonly name: string;                          // 协议名，如json、msgpack
+    encode(json: any): number[];                    // 数据包 -> 字节
+    decode(bytes: ArrayLike<number>): any;          // 字节 -> 数据包
+}
+
+
+export class JsonCodec implements INetCodec {
+    public readonly name: string = "json";
+
+    public encode(json: any): number[] {
+        return msgpack.utf8ToBytes(JSON.stringify(json));
+    }
+
+    public decode(bytes: ArrayLike<number>): any {
+        return JSON.parse(msgpack.bytesToUtf8(bytes));
+    }
+}
+
+
+export class MsgPackCodec implements INetCodec {
+    public readonly name: string = "msgpack";
+
+    public encode(json: any): number[] {
+        return msgpack.encode(json);
+    }
+
+    public decode(bytes: ArrayLike<number>): any {
+        return msgpack.decode(bytes);
+    }
+}
+
+
+const codecs: Map<string, INetCodec> = new Map<string, INetCodec>();
+
+/**
+ * 注册编码，服务器支持其他格式时使用
+ * @param codec
+ */
+export function registerNetCodec(codec: INetCodec): void {
+    codecs.set(codec.name, codec);
+}
+
+/**
+ * 按名字获取编码
+ * @param name 为空或未注册时返回null，使用旧协议
+ */
+export function getNetCodec(name: string): INetCodec {
+    if (!name || !codecs.has(name)) {
+        return null;
+    }
+    return codecs.get(name);
+}
+
+registerNetCodec(new JsonCodec());
+registerNetCodec(new MsgPackCodec());
+
+
+// 帧标记，每帧第一个字节
+export enum NetFrameFlag {
+    None = 0,
+    Gzip = 1,                   // 内容经过gzip压缩
+}
+
+/**
+ * 打包一帧
+ * 帧格式：加密(1字节标记 + 编码字节)，不再转hex；
+ * 标记放在加密内容里，Envelope校验通过后才会解压；
+ * 先压缩再加密，密文无法压缩；小于compressMin字节的包不压缩，省掉心跳等小包的压缩开销
+ * @param codec 编码
+ * @param json 数据包
+ * @param cipher 握手确认的加密
+ * @param compressMin 压缩阈值(字节)
+ */
+export function packFrame(codec: INetCodec, json: any, cipher: INetCipher, compressMin: number): number[] {
+    let body = codec.encode(json);
+    let flag = NetFrameFlag.None;
+    if (body.length >= compressMin) {
+        body = gzip.zip(body, { level: 6 });
+        flag = NetFrameFlag.Gzip;
+    }
+    body.unshift(flag);
+    return cipher.encrypt(body);
+}
+
+/**
+ * 解包一帧，先解密再解压
+ * @returns 数据包
+ */
+export function unpackFrame(codec: INetCodec, frame: ArrayLike<number>, cipher: INetCipher): any {
+    let body = cipher.decrypt(Array.prototype.slice.call(frame));
+    let flag = body.shift();
+    if (flag & NetFrameFlag.Gzip) {
+        body = gzip.unzip(body);
+    }
+    return codec.decode(body);
+}
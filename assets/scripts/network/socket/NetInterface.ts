@@ -1,4 +1,9 @@
 
+import { NetContext } from "../NetMiddleware";
+import { NetCancelToken } from "../NetCancel";
+import { NetConnectOptions, NetNodeType } from "./NetNode";
+import { NetTimer, NetTimerData } from "./NetTimer";
+
 export type NetData = (string | ArrayBufferLike | Blob | ArrayBufferView);
 
 export class RequestObject {
@@ -9,6 +14,9 @@ export class RequestObject {
     public sended:boolean = false;        // 是否发送
     public otherData:any = {};
     public startTime:number = 0
+    public priority:number = 0;          // 发送优先级 NetPriority
+    public ctx:NetContext = null;        // 中间件上下文
+    public token:NetCancelToken = null;  // 取消令牌
 
     public destroy():void{
         this.json = null;
@@ -18,6 +26,46 @@ export class RequestObject {
         this.sended = false;
         this.otherData = {};
         this.startTime = 0;
+        this.priority = 0;
+        this.ctx = null;
+        this.token = null;
+    }
+}
+
+
+
+// 请求失败类型
+export enum NetErrorType {
+    TimeOut,                    // 请求超时
+    Closed,                     // 连接已断开
+    HandShake,                  // 握手失败
+    Code,                       // 服务器返回错误码
+    Dropped,                    // 发送队列已满被丢弃
+    Cancelled,                  // 被NetCancelToken取消
+    Status,                     // http状态码不是2xx
+    Parse,                      // 回包不是合法的json
+}
+
+
+// 请求失败，send返回的Promise会以此reject
+export class NetError extends Error {
+    public type: NetErrorType;
+    public req: any = null;                 // 请求的json
+    public rsp: any = null;                 // 服务器返回（仅Code类型有）
+    public code: number = 0;                // 服务器错误码
+    public codeStr: string = "";            // 错误码描述
+
+    constructor(type: NetErrorType, message: string, req: any = null, rsp: any = null) {
+        super(message);
+        Object.setPrototypeOf(this, NetError.prototype);
+        this.name = "NetError";
+        this.type = type;
+        this.req = req;
+        this.rsp = rsp;
+        if (rsp && rsp.code != undefined) {
+            this.code = rsp.code;
+            this.codeStr = message;
+        }
     }
 }
 
@@ -30,19 +78,45 @@ export interface ISocket {
     onJsonMessage: (msg: NetData) => void;      // 消息回调
     onError: (event) => void;               // 错误回调
     onClosed: (event) => void;              // 关闭回调
+    onGetKey: () => void;                   // 握手完成回调
+    onHandShakeError: (error) => void;      // 握手失败回调
+    onFrameError: (error) => void;          // 消息解密、校验或解码失败回调
     
     connect(options: any);                  // 连接接口
     send(buffer: NetData);                  // 数据发送接口
+    packAndSend(json: any);                 // 打包并发送json
     close(code?: number, reason?: string);  // 关闭接口
 }
 
 
 // 请求对象
 export class NetEvent {
-    public static ServerTimeOut:string = "ServerTimeOut";
-    public static ServerConnected:string = "ServerConnected";
-    public static ServerHandShake:string = "ServerHandShake";
-    public static ServerCheckLogin:string = "ServerCheckLogin";
-    public static ServerRequesting:string = "ServerRequesting";
-    public static ServerRequestSucess:string = "ServerRequestSucess";
+    public static readonly ServerTimeOut = "ServerTimeOut";
+    public static readonly ServerConnected = "ServerConnected";
+    public static readonly ServerHandShake = "ServerHandShake";             // 登录验证完成，参数为NetNodeType
+    public static readonly ServerCheckLogin = "ServerCheckLogin";           // 握手完成需要登录验证，参数为NetNodeType
+    public static readonly ServerRequesting = "ServerRequesting";
+    public static readonly ServerRequestSucess = "ServerRequestSucess";     // 收到回包，参数为回包、NetNodeType
+    public static readonly ServerReConnecting = "ServerReConnecting";       // 断线重连中，参数为第几次重连、NetNodeType
+    public static readonly ServerReconnected = "ServerReconnected";         // 重连成功，参数为NetNodeType
+    public static readonly ServerReconnectGaveUp = "ServerReconnectGaveUp"; // 重连次数用完，放弃重连，参数为重连次数、NetNodeType
+    public static readonly ServerFrameError = "ServerFrameError";           // 收到无法解密或校验失败的消息，参数为错误、NetNodeType
+    public static readonly ServerFailover = "ServerFailover";               // 重连次数用完，切换到备用线路，参数为NetConnectOptions、NetNodeType
+}
+
+// 连接事件参数
+declare module "../../utils/EventMgr" {
+    interface EventMap {
+        [NetEvent.ServerTimeOut]: [data: NetTimerData, timer: NetTimer];
+        [NetEvent.ServerConnected]: [];
+        [NetEvent.ServerHandShake]: [type: NetNodeType];
+        [NetEvent.ServerCheckLogin]: [type: NetNodeType];
+        [NetEvent.ServerRequesting]: [isShow: boolean];
+        [NetEvent.ServerRequestSucess]: [rsp: any, type?: NetNodeType];       // http没有type
+        [NetEvent.ServerReConnecting]: [times: number, type: NetNodeType];
+        [NetEvent.ServerReconnected]: [type: NetNodeType];
+        [NetEvent.ServerReconnectGaveUp]: [times: number, type: NetNodeType];
+        [NetEvent.ServerFrameError]: [error: any, type: NetNodeType];
+        [NetEvent.ServerFailover]: [options: NetConnectOptions, type: NetNodeType];
+    }
 }
@@ -1,9 +1,30 @@
 import { _decorator } from 'cc';
-import { NetNode, NetConnectOptions } from "./NetNode";
+import { NetNode, NetConnectOptions, NetNodeType } from "./NetNode";
+import { ISocket, NetEvent } from "./NetInterface";
+import { ServerRequest, ServerResult, ServerRoute } from "../../config/ServerProtocol";
+import { ServerCoalesceRoutes, ServerRateLimit, ServerRoutePriority, ServerRouteTimeout } from "../../config/ServerConfig";
+import { INetMiddleware, NetMiddlewareChain } from "../NetMiddleware";
+import { NetCancelToken } from "../NetCancel";
+import { EventMgr } from "../../utils/EventMgr";
 
+
+// 一个连接的备用线路
+interface NetFailover {
+    list: NetConnectOptions[],
+    index: number,              // 当前线路
+    tries: number,              // 上次连上后已切换的次数
+}
+
+/**
+ * 管理多个连接，每种NetNodeType一个NetNode，各自断线重连互不影响
+ * 不传type的接口都作用于主服务器BaseServer
+ */
 export class NetManager {
     private static _instance: NetManager = null;
-    protected _netNode: NetNode = null;
+    protected _netNodes: Map<NetNodeType, NetNode> = new Map<NetNodeType, NetNode>();
+    protected _inflight: Map<string, Promise<any>> = new Map<string, Promise<any>>();     // 等待回包的幂等请求
+    protected _middleware: NetMiddlewareChain = new NetMiddlewareChain();                // 所有连接共用的收发中间件
+    protected _failovers: Map<NetNodeType, NetFailover> = new Map<NetNodeType, NetFailover>();
     public static getInstance(): NetManager {
         if (this._instance == null) {
         this._instance = new NetManager();
@@ -11,30 +32,144 @@ export class NetManager {
         return this._instance;
     }
     constructor(){
-        this._netNode = new NetNode();
-        this._netNode.init();
+        this.getNode(NetNodeType.BaseServer);
+        EventMgr.on(NetEvent.ServerHandShake, this.onHandShake, this);
+    }
+
+    /**
+     * 获取连接，没有则创建
+     * @param type 服务器类型
+     */
+    public getNode(type: NetNodeType = NetNodeType.BaseServer): NetNode {
+        if (this._netNodes.has(type)) {
+            return this._netNodes.get(type);
+        }
+
+        let node = new NetNode();
+        node.init(null, type);
+        node.setMiddleware(this._middleware);
+        node.setFailover(() => { return this.nextFailover(type); });
+
+        let scheduler = node.getScheduler();
+        for (let name in ServerRoutePriority) {
+            scheduler.setPriority(name, ServerRoutePriority[name]);
+        }
+        for (let name in ServerRateLimit) {
+            scheduler.setRateLimit(name, ServerRateLimit[name]);
+        }
+        let timer = node.getTimer();
+        for (let name in ServerRouteTimeout) {
+            timer.setRouteTimeout(name, ServerRouteTimeout[name]);
+        }
+
+        this._netNodes.set(type, node);
+        return node;
+    }
+
+    public getNodes(): NetNode[] {
+        return Array.from(this._netNodes.values());
+    }
+
+    /**
+     * 添加收发中间件，用于日志、统计、注入session、错误提示、测试替身等
+     * @param middleware
+     */
+    public use(middleware: INetMiddleware): void {
+        this._middleware.use(middleware);
+    }
+
+    public removeMiddleware(middleware: INetMiddleware): void {
+        this._middleware.remove(middleware);
     }
-    
+
+    /**
+     * 设置线路列表，当前线路重连次数用完后依次切换，所有线路都试过后才放弃
+     * 切换时派发NetEvent.ServerFailover
+     * @param list 第一条为首选线路
+     */
+    public setFailover(list: NetConnectOptions[], type: NetNodeType = NetNodeType.BaseServer): void {
+        this._failovers.set(type, { list: list.concat(), index: 0, tries: 0 });
+    }
+
+    protected nextFailover(type: NetNodeType): NetConnectOptions {
+        let failover = this._failovers.get(type);
+        if (failover == null || failover.tries >= failover.list.length - 1) {
+            if (failover) {
+                failover.tries = 0;
+            }
+            return null;
+        }
+        failover.tries += 1;
+        failover.index = (failover.index + 1) % failover.list.length;
+        return failover.list[failover.index];
+    }
+
+    //连上后重新计算切换次数
+    protected onHandShake(type: NetNodeType): void {
+        if (this._failovers.has(type)) {
+            this._failovers.get(type).tries = 0;
+        }
+    }
+
+    /**
+     * 连接服务器，options.type决定使用哪个连接
+     * @param options
+     */
     public connect(options: NetConnectOptions) :void{
-        this._netNode.connect(options);
+        this.getNode(options.type).connect(options);
     }
 
-    public send(send_data: any, otherData:any = {},force: boolean = false) :Promise<any>{
+    /**
+     * 发送请求
+     * 超时、断开、握手失败、服务器返回错误码时以NetError reject
+     * ServerCoalesceRoutes中的接口，相同请求在回包前会合并为一次
+     * 传了token的请求不合并，取消时不影响其他调用方
+     */
+    public send<K extends ServerRoute>(send_data: ServerRequest<K>, otherData:any = {},force: boolean = false, type: NetNodeType = NetNodeType.BaseServer, token: NetCancelToken = null) :Promise<ServerResult<K>>{
         if(send_data.seq == undefined){
             send_data.seq = 0;
         }
-        
-        return this._netNode.send(send_data,otherData,force);
+
+        let node = this.getNode(type);
+        if(force || token || ServerCoalesceRoutes.indexOf(send_data.name) < 0){
+            return node.send(send_data,otherData,force,token);
+        }
+
+        //相同的查询还没回包，直接共用
+        let key = type + send_data.name + JSON.stringify(send_data.msg);
+        if(this._inflight.has(key)){
+            return this._inflight.get(key);
+        }
+
+        let p = node.send(send_data,otherData,force);
+        this._inflight.set(key, p);
+        let remove = () => {
+            if(this._inflight.get(key) == p){
+                this._inflight.delete(key);
+            }
+        };
+        p.then(remove, remove);
+        return p;
+    }
+
+    public close(code?: number, reason?: string, type: NetNodeType = NetNodeType.BaseServer):void {
+        if (this._netNodes.has(type)) {
+            this._netNodes.get(type).closeSocket(code, reason);
+        }
     }
 
-    public close(code?: number, reason?: string):void {
-        this._netNode.closeSocket(code, reason);
+    /**
+     * 更换传输层，如离线开发时使用LoopbackSock，需在connect之前调用
+     * @param socket
+     */
+    public setSocket(socket: ISocket, type: NetNodeType = NetNodeType.BaseServer):boolean {
+        return this.getNode(type).setSocket(socket);
     }
 
     public changeConnect(options: NetConnectOptions):void {
-        this._netNode.changeConect(options);
+        this.getNode(options.type).changeConect(options);
     }
-    public tryConnet():void{
-        this._netNode.tryConnet();
+    public tryConnet(type: NetNodeType = NetNodeType.BaseServer):void{
+        this.getNode(type).tryConnet();
     }
 }
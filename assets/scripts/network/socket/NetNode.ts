@@ -1,8 +1,16 @@
 
-import { RequestObject, NetEvent } from "./NetInterface";
+import { RequestObject, NetEvent, NetError, NetErrorType, ISocket } from "./NetInterface";
 import { NetTimer } from "./NetTimer";
 import { WebSock } from "./WebSock";
+import { IReconnectPolicy, BackoffReconnectPolicy } from "./NetReconnect";
+import { NetRecorder, NetRecordDir } from "./NetRecorder";
+import { NetScheduler } from "./NetScheduler";
+import { INetCodec } from "./NetCodec";
+import { NetCipherVersion } from "./NetCipher";
+import { NetChannel, NetContext, NetMiddlewareChain } from "../NetMiddleware";
+import { NetCancelToken } from "../NetCancel";
 import { EventMgr } from "../../utils/EventMgr";
+import { Tools } from "../../utils/Tools";
 
 
 export enum NetTipsType {
@@ -26,21 +34,30 @@ export enum NetNodeType {
  
 
 const recvMessage = "recvMessage";
+const recvError = "recvError";
 
 export interface NetConnectOptions {
     host?: string,              // 地址
     port?: number,              // 端口
     url?: string,               // url，与地址+端口二选一
     autoReconnect?: number,     // -1 永久重连，0不自动重连，其他正整数为自动重试次数
+    reconnectPolicy?: IReconnectPolicy,  // 重连策略，不传则按autoReconnect使用指数退避
     type?:NetNodeType,          //服务器类型
+    createWebSocket?: (url: string) => WebSocket,   // 自定义WebSocket，如本地模拟服务器MockServer
+    codec?: INetCodec,          // 消息编码，需要服务器支持，不传使用旧协议
+    compressMin?: number,       // 使用codec时小于该字节数的包不压缩
+    cipher?: NetCipherVersion,  // 加密版本，需要服务器支持，服务器未确认时使用Legacy
 }
 
 export class NetNode {
+    protected _type: NetNodeType = NetNodeType.BaseServer;                  // 服务器类型，多个连接时区分事件来源
     protected _connectOptions: NetConnectOptions = null;
-    protected _autoReconnect: number = 0;
-    protected _autoReconnectMax: number = 3;
+    protected _autoReconnect: boolean = false;                              // 是否自动重连
+    protected _autoReconnectMax: number = 3;                                // 未配置autoReconnect时的重连次数
+    protected _reconnectPolicy: IReconnectPolicy = null;                    // 重连策略
+    protected _reconnectTimes: number = 0;                                  // 本次断线已重连次数
     protected _state: NetNodeState = NetNodeState.Closed;                   // 节点当前状态
-    protected _socket: WebSock = null;                                      // Socket对象（可能是原生socket、websocket、wx.socket...)
+    protected _socket: ISocket = null;                                      // Socket对象（可能是原生socket、websocket、wx.socket...)
     protected _timer:NetTimer = null;
 
 
@@ -48,19 +65,30 @@ export class NetNode {
     protected _reconnectTimer: any = null;                                  // 重连定时器
     protected _heartTime: number = 10*1000;                                 // 心跳间隔
     protected _receiveTime: number = 10*1000;                               // 多久没收到数据断开
-    protected _reconnetTimeOut: number = 2*1000;                            // 重连间隔
-    protected _requests: RequestObject[] = Array<RequestObject>();          // 请求列表
+    protected _requests: RequestObject[] = Array<RequestObject>();          // 已发送等待回包的请求列表
+    protected _scheduler: NetScheduler = null;                              // 待发送的请求队列
+    protected _flushTimer: any = null;                                      // 限频等待定时器
+    protected _checked: boolean = false;                                    // 是否已完成登录验证
+    protected _middleware: NetMiddlewareChain = new NetMiddlewareChain();   // 收发中间件
+    protected _failover: () => NetConnectOptions = null;                    // 重连次数用完后取备用线路
     protected _maxSeqId :number = 1000000;
     protected _seqId :number = 1;
     protected _invokePool:any = [];
 
     /********************** 网络相关处理 *********************/
-    public init() {
-        console.log(`NetNode init socket`);
-        this._socket = new WebSock();
+    /**
+     * 初始化
+     * @param socket 传输层，不传默认使用WebSock
+     * @param type 服务器类型
+     */
+    public init(socket: ISocket = null, type: NetNodeType = NetNodeType.BaseServer) {
+        console.log(`NetNode init socket`, type);
+        this._type = type;
+        this._socket = socket ? socket : new WebSock();
         this.initSocket();
         this._timer = new NetTimer();
         this.initTimer();
+        this._scheduler = new NetScheduler();
         this._invokePool = [];
         
     }
@@ -74,8 +102,8 @@ export class NetNode {
                 return false;
             }
 
-            if (this._connectOptions == null) {
-                options.autoReconnect = options.autoReconnect;
+            if (this._connectOptions != options) {
+                this.initReconnectPolicy(options);
             }
             this._connectOptions = options;
             this.updateNetTips(NetTipsType.Connecting, true);
@@ -85,6 +113,71 @@ export class NetNode {
     }
 
 
+    public get type(): NetNodeType {
+        return this._type;
+    }
+
+    public get state(): NetNodeState {
+        return this._state;
+    }
+
+    public get reconnectTimes(): number {
+        return this._reconnectTimes;
+    }
+
+    /**
+     * 已发送等待回包的请求，用于调试显示
+     */
+    public getPendingRequests(): RequestObject[] {
+        return this._requests.concat();
+    }
+
+    /**
+     * 设置收发中间件，NetManager的所有连接共用一个
+     * @param middleware
+     */
+    public setMiddleware(middleware: NetMiddlewareChain): void {
+        this._middleware = middleware;
+    }
+
+    /**
+     * 设置备用线路，重连次数用完后调用，返回null则放弃重连
+     * @param failover
+     */
+    public setFailover(failover: () => NetConnectOptions): void {
+        this._failover = failover;
+    }
+
+    /**
+     * 请求超时计时，用于配置接口超时
+     */
+    public getTimer(): NetTimer {
+        return this._timer;
+    }
+
+    /**
+     * 待发送队列，用于配置接口优先级和限频
+     */
+    public getScheduler(): NetScheduler {
+        return this._scheduler;
+    }
+
+
+    /**
+     * 更换传输层，需在connect之前调用
+     * @param socket 
+     */
+    public setSocket(socket: ISocket): boolean{
+        if(this._state != NetNodeState.Closed){
+            console.error("NetNode setSocket error! current state is " + this._state);
+            return false;
+        }
+        this._socket = socket;
+        this.initSocket();
+        return true;
+    }
+
+
     /**
      * 更换线路
      * @param options 
@@ -100,13 +193,24 @@ export class NetNode {
         this.connect(options);
     }
 
+    protected initReconnectPolicy(options: NetConnectOptions) {
+        if (options.reconnectPolicy) {
+            this._reconnectPolicy = options.reconnectPolicy;
+        } else {
+            let maxTimes = options.autoReconnect == undefined ? this._autoReconnectMax : options.autoReconnect;
+            this._reconnectPolicy = new BackoffReconnectPolicy({ maxTimes: maxTimes });
+        }
+    }
+
     protected initSocket() {
-        this._autoReconnect = this._autoReconnectMax;
+        this._autoReconnect = true;
         this._socket.onConnected = (event) => { this.onConnected(event) };
         this._socket.onJsonMessage = (msg) => { this.onMessage(msg) };
         this._socket.onError = (event) => { this.onError(event) };
         this._socket.onClosed = (event) => { this.onClosed(event) };
         this._socket.onGetKey = () => { this.onGetKey() };
+        this._socket.onHandShakeError = (error) => { this.onHandShakeError(error) };
+        this._socket.onFrameError = (error) => { this.onFrameError(error) };
 
         EventMgr.on(NetEvent.ServerHandShake, this.onChecked, this);
     }
@@ -121,18 +225,41 @@ export class NetNode {
         //     this.onChecked();
         // }
 
-        EventMgr.emit(NetEvent.ServerCheckLogin);
+        EventMgr.emit(NetEvent.ServerCheckLogin, this._type);
         
     }
 
 
+    // 握手失败，等待中的请求全部失败，断开重连
+    protected onHandShakeError(error) {
+        console.log("NetNode onHandShakeError!", error);
+        this.rejectRequests(NetErrorType.HandShake, "握手失败");
+        this.clearTimer();
+        this.tryConnet();
+    }
+
+
+    // 消息被篡改或损坏，之后的数据也不可信，断开重连
+    protected onFrameError(error) {
+        console.error("NetNode onFrameError!", error);
+        EventMgr.emit(NetEvent.ServerFrameError, error, this._type);
+        this.clearTimer();
+        this.restReq();
+        this.tryConnet();
+    }
+
+
     protected initTimer(){
         this._timer.init();
         
         EventMgr.on(NetEvent.ServerTimeOut, this.onTimeOut, this);
     }
 
-    protected onTimeOut(msg:any){
+    protected onTimeOut(msg:any, timer:NetTimer){
+        if(timer != this._timer){
+            //其他连接的请求
+            return;
+        }
         console.log("NetNode onTimeOut!",msg)
         //超时删除 请求队列
         for (var i = 0; i < this._requests.length;i++) {
@@ -140,10 +267,10 @@ export class NetNode {
             if(msg.name == req.rspName && msg.seq == req.seq){
                 console.log("NetNode remove:", req)
                 this._requests.splice(i, 1);
-                this.destroyInvoke(req);
                 i--;
 
-                EventMgr.emit(recvMessage, msg, req);
+                this.emitError(new NetError(NetErrorType.TimeOut, "请求超时", req.json), req);
+                this.destroyInvoke(req);
             }       
         }
 
@@ -156,14 +283,19 @@ export class NetNode {
         } else if (tipsType == NetTipsType.Connecting) {
 
         } else if (tipsType == NetTipsType.ReConnecting) {
-
+            if (isShow) {
+                EventMgr.emit(NetEvent.ServerReConnecting, this._reconnectTimes, this._type);
+            } else {
+                EventMgr.emit(NetEvent.ServerReconnected, this._type);
+            }
         }
     }
 
     // 网络连接成功
     protected onConnected(event) {
         console.log("NetNode onConnected!")
-        this._autoReconnect = this._autoReconnectMax;
+        this._autoReconnect = true;
+        this._checked = false;
 
         this.clearTimer();
         // 启动心跳
@@ -173,23 +305,22 @@ export class NetNode {
     }
 
     // 连接验证成功，进入工作状态
-    protected onChecked() {
-        console.log("NetNode onChecked!")
+    protected onChecked(type: NetNodeType = NetNodeType.BaseServer) {
+        if (type != this._type) {
+            return;
+        }
+        console.log("NetNode onChecked!", type)
+        this._checked = true;
         
         // 关闭连接或重连中的状态显示
         this.updateNetTips(NetTipsType.Connecting, false);
-        this.updateNetTips(NetTipsType.ReConnecting, false);
-
-        if (this._requests.length > 0) {
-            for (var i = 0; i < this._requests.length;i++) {
-                let req = this._requests[i];
-                if(req.sended == false){
-                    this.socketSend(req);
-                }
-
-            }
-            // 如果还有等待返回的请求，启动网络请求层
+        if (this._reconnectTimes > 0) {
+            this._reconnectTimes = 0;
+            this.updateNetTips(NetTipsType.ReConnecting, false);
         }
+
+        // 断线期间排队的请求按优先级发出
+        this.flush();
     }
 
     // 接收到一个完整的消息包
@@ -201,11 +332,17 @@ export class NetNode {
              // 接受到数据，重新定时收数据计时器
             //推送
             if(msg.seq == 0){
+                NetRecorder.getInstance().record(NetRecordDir.Recv, msg);
+                let ctx = this.createContext(msg.name, null);
+                ctx.rsp = msg;
+                this._middleware.receive(ctx);
+                msg = ctx.rsp;
                 EventMgr.emit(msg.name, msg);
                 // console.log("all_push:",msg.name, msg);
             }else{
                 this.cannelMsgTimer(msg);
 
+                let matched = false;
                 for (var i = 0; i < this._requests.length;i++) {
                     let req = this._requests[i];
                     if(msg.name == req.rspName && msg.seq == req.seq && req.sended == true){
@@ -213,14 +350,32 @@ export class NetNode {
                         // console.log("req:", req);
                         this._requests.splice(i, 1);
                         i--;
+                        matched = true;
+                        NetRecorder.getInstance().record(NetRecordDir.Recv, msg, req.otherData);
+
+                        if(req.ctx == null){
+                            req.ctx = this.createContext(req.rspName, req.json, req.otherData);
+                        }
+                        req.ctx.rsp = msg;
+                        this._middleware.receive(req.ctx);
+                        let rsp = req.ctx.rsp;
                
-                        EventMgr.emit(recvMessage, msg, req);
-                        EventMgr.emit(msg.name, msg, req.otherData);
+                        if(rsp.code == undefined || rsp.code == 0){
+                            EventMgr.emit(recvMessage, rsp, req);
+                        }else{
+                            this.emitError(new NetError(NetErrorType.Code, Tools.getCodeStr(rsp.code), req.json, rsp), req);
+                        }
+                        EventMgr.emit(rsp.name, rsp, req.otherData);
                         this.destroyInvoke(req);
-                        EventMgr.emit(NetEvent.ServerRequestSucess,msg);
+                        EventMgr.emit(NetEvent.ServerRequestSucess,rsp,this._type);
                     }       
                 }
 
+                //超时后才到的回包也记录下来
+                if(!matched){
+                    NetRecorder.getInstance().record(NetRecordDir.Recv, msg);
+                }
+
             }
            
         }
@@ -238,15 +393,39 @@ export class NetNode {
     protected onClosed(event) {
         console.log("onClosed:",event);
 
-        //出错后
+        //断开后已发送的请求等重连后重发，放弃重连时以Closed失败
         this.clearTimer();
+        this.restReq();
         this.tryConnet();
     }
 
+    /**
+     * 等待中的请求全部以失败结束
+     * @param type 失败类型
+     * @param reason 失败描述
+     */
+    protected rejectRequests(type: NetErrorType, reason: string){
+        let requests = this._requests.concat(this._scheduler.clear());
+        this._requests.length = 0;
+        for (var i = 0; i < requests.length;i++) {
+            let req = requests[i];
+            this.emitError(new NetError(type, reason, req.json), req);
+            this.destroyInvoke(req);
+        }
+    }
+
+    // 已发送的请求放回待发送队列，重连后重新发送；心跳直接丢弃，连上后会重新开始
     protected restReq(){
-        for (var i = 0; i < this._requests.length;i++) {
-            let req = this._requests[i];
-            req.sended = false;            
+        let requests = this._requests.concat();
+        this._requests.length = 0;
+        for (var i = 0; i < requests.length;i++) {
+            let req = requests[i];
+            if (req.rspName == "heartbeat") {
+                this.destroyInvoke(req);
+                continue;
+            }
+            req.sended = false;
+            this.queuePack(req);
         }
     }
 
@@ -254,35 +433,59 @@ export class NetNode {
      * 重连
      */
     public tryConnet(){
-        console.log("tryConnet",this._autoReconnect)
-        if (this.isAutoReconnect()) {
-            this.updateNetTips(NetTipsType.ReConnecting, true);
-
-            
-            this._socket.close();
-            this._state = NetNodeState.Closed;
+        console.log("tryConnet",this._autoReconnect, this._reconnectTimes)
+        if (this._reconnectTimer !== null) {
+            //onError和onClosed会先后触发，已经在等待重连了
+            return;
+        }
 
-            this._reconnectTimer = setTimeout(() => {
-                console.log("NetNode tryConnet!")
-                this.connect(this._connectOptions);
-                if (this._autoReconnect > 0) {
-                    this._autoReconnect -= 1;
-                }
+        if (this.isAutoReconnect()) {
+            let delay = this._reconnectPolicy.getDelay(this._reconnectTimes + 1);
+            if (delay >= 0) {
+                this._reconnectTimes += 1;
+                this.updateNetTips(NetTipsType.ReConnecting, true);
+
+                this._socket.close();
+                this._state = NetNodeState.Closed;
+
+                this._reconnectTimer = setTimeout(() => {
+                    this._reconnectTimer = null;
+                    console.log("NetNode tryConnet!", this._reconnectTimes, delay)
+                    this.connect(this._connectOptions);
+                }, delay);
+                return;
+            }
 
+            //重连次数用完，有备用线路时换线路重新开始重连
+            let options = this._failover ? this._failover() : null;
+            if (options) {
+                console.log("NetNode failover:", options.url);
+                this.initReconnectPolicy(options);
+                this._connectOptions = options;
+                this._reconnectTimes = 0;
+                EventMgr.emit(NetEvent.ServerFailover, options, this._type);
+                this.tryConnet();
+                return;
+            }
 
-            }, this._reconnetTimeOut);
-        } else {
-            this._state = NetNodeState.Closed;
+            //重连次数用完，放弃
+            this._autoReconnect = false;
+            EventMgr.emit(NetEvent.ServerReconnectGaveUp, this._reconnectTimes, this._type);
+            this._reconnectTimes = 0;
         }
 
+        this._state = NetNodeState.Closed;
+        this.rejectRequests(NetErrorType.Closed, "连接已断开");
     }
 
     // 只是关闭Socket套接字（仍然重用缓存与当前状态）
     public closeSocket(code?: number, reason?: string) {
         this.clearTimer();
-        this._requests.length = 0;
+        this.clearReconnectTimer();
+        this.rejectRequests(NetErrorType.Closed, "连接已断开");
         this._seqId = 1;
-        this._autoReconnect = 0;
+        this._autoReconnect = false;
+        this._reconnectTimes = 0;
 
         if (this._socket) {
             this._socket.close(code, reason);
@@ -294,12 +497,25 @@ export class NetNode {
 
 
 
-    public send(send_data:any,otherData:any,force: boolean = false) :Promise<any>{
+    public send(send_data:any,otherData:any,force: boolean = false, token: NetCancelToken = null) :Promise<any>{
+        if (token && token.cancelled) {
+            let p = Promise.reject(new NetError(NetErrorType.Cancelled, "请求已取消", send_data));
+            p.catch(() => {});
+            return p;
+        }
+
+        let ctx = this.createContext(send_data.name, send_data, otherData);
+        this._middleware.send(ctx);
+        if (ctx.rsp) {
+            //中间件直接给了回包，如测试替身
+            return this.sendFake(ctx, token);
+        }
    
         let data = this.createInvoke();
-        data.json = send_data;
-        data.rspName = send_data.name;
+        data.json = ctx.req;
+        data.rspName = ctx.req.name;
         data.otherData = otherData;
+        data.ctx = ctx;
   
         let p = new Promise(function(resolve, reject){
             let self = this;
@@ -310,34 +526,121 @@ export class NetNode {
                         rsp: rsp
                     };
                     EventMgr.off(recvMessage, ok, self);
+                    EventMgr.off(recvError, fail, self);
                     // console.log("ok");
                     resolve(obj);
                 }
             }
+
+            let fail = (error:NetError, req)=>{
+                if(data == req){
+                    EventMgr.off(recvMessage, ok, self);
+                    EventMgr.off(recvError, fail, self);
+                    reject(error);
+                }
+            }
           
             EventMgr.on(recvMessage, ok, self);
+            EventMgr.on(recvError, fail, self);
       
         });
+        //大部分调用方不关心返回的Promise，失败已通过事件通知，这里避免报Uncaught (in promise)
+        p.catch(() => {});
+
+        if (token) {
+            data.token = token;
+            token.add(() => { this.cancelRequest(data); }, data);
+        }
          
         this.sendPack(data,force);
         return p;
     }
 
-    // 发起请求，如果当前处于重连中，进入缓存列表等待重连完成后发送
+    // 不经过服务器，把中间件给的回包当作服务器回包处理
+    protected sendFake(ctx: NetContext, token: NetCancelToken): Promise<any> {
+        let p = new Promise((resolve, reject) => {
+            setTimeout(() => {
+                if (token && token.cancelled) {
+                    reject(new NetError(NetErrorType.Cancelled, "请求已取消", ctx.req));
+                    return;
+                }
+                if (ctx.rsp.name == undefined) {
+                    ctx.rsp.name = ctx.name;
+                }
+                this._middleware.receive(ctx);
+                let rsp = ctx.rsp;
+                EventMgr.emit(rsp.name, rsp, ctx.otherData);
+
+                if (rsp.code == undefined || rsp.code == 0) {
+                    resolve({ req: ctx.req, rsp: rsp });
+                } else {
+                    ctx.error = new NetError(NetErrorType.Code, Tools.getCodeStr(rsp.code), ctx.req, rsp);
+                    this._middleware.error(ctx);
+                    reject(ctx.error);
+                }
+            }, 0);
+        });
+        p.catch(() => {});
+        return p;
+    }
+
+    protected createContext(name: string, req: any, otherData: any = null): NetContext {
+        let ctx = new NetContext(NetChannel.Socket, name, req, otherData);
+        ctx.server = this._type;
+        return ctx;
+    }
+
+    /**
+     * 取消请求：已发送的移出等待队列并取消超时，未发送的移出待发送队列
+     * 之后到达的回包当作超时后的回包，不再派发
+     */
+    protected cancelRequest(req: RequestObject) {
+        let index = this._requests.indexOf(req);
+        if (index >= 0) {
+            this._requests.splice(index, 1);
+            this.cannelMsgTimer(req.json);
+        } else if (!this._scheduler.remove(req)) {
+            return;
+        }
+
+        //主动取消不算失败，不经过中间件的onError
+        EventMgr.emit(recvError, new NetError(NetErrorType.Cancelled, "请求已取消", req.json), req);
+        this.destroyInvoke(req);
+    }
+
+    // 请求失败，先交给中间件再通知send返回的Promise
+    protected emitError(error: NetError, req: RequestObject) {
+        if (req.ctx == null) {
+            req.ctx = this.createContext(req.rspName, req.json, req.otherData);
+        }
+        req.ctx.error = error;
+        this._middleware.error(req.ctx);
+        EventMgr.emit(recvError, error, req);
+    }
+
+    // 发起请求，进入待发送队列按优先级发送，如果当前处于重连中，等待重连完成后发送
     public sendPack(obj: RequestObject, force: boolean = false) :boolean {
-        if (this._state == NetNodeState.Working || force) {
+        if (force || (this._state == NetNodeState.Working && !this._checked)) {
+            // 登录验证中的请求直接发送，排队的请求等验证完成
             this.socketSend(obj);
             this._requests.push(obj);
         } 
         
+        else if (this._state == NetNodeState.Working) {
+            this.queuePack(obj);
+            this.flush();
+        } 
+        
         else if (this._state == NetNodeState.Checking ||
             this._state == NetNodeState.Connecting) {
-            this._requests.push(obj);
+            this.queuePack(obj);
         } 
         
         else if(this._state == NetNodeState.Closed){
-            this.connect(this._connectOptions);
-            this._requests.push(obj);
+            if (this._connectOptions) {
+                this.connect(this._connectOptions);
+            }
+            this.queuePack(obj);
         }
         
         else {
@@ -346,6 +649,43 @@ export class NetNode {
         return false;
     }
 
+    // 进入待发送队列，队列满时丢弃的请求直接失败
+    protected queuePack(obj: RequestObject) {
+        let dropped = this._scheduler.push(obj);
+        if (dropped) {
+            console.log("NetNode drop:", dropped.rspName);
+            this.emitError(new NetError(NetErrorType.Dropped, "请求队列已满", dropped.json), dropped);
+            this.destroyInvoke(dropped);
+        }
+    }
+
+    // 发送队列中未被限频的请求，被限频的等待后再发
+    protected flush() {
+        if (this._flushTimer !== null) {
+            clearTimeout(this._flushTimer);
+            this._flushTimer = null;
+        }
+        if (this._state != NetNodeState.Working || !this._checked) {
+            return;
+        }
+
+        let now = new Date().getTime();
+        let req = this._scheduler.pop(now);
+        while (req) {
+            this.socketSend(req);
+            this._requests.push(req);
+            req = this._scheduler.pop(now);
+        }
+
+        let delay = this._scheduler.nextDelay(now);
+        if (delay >= 0) {
+            this._flushTimer = setTimeout(() => {
+                this._flushTimer = null;
+                this.flush();
+            }, delay);
+        }
+    }
+
 
     /**
      * 打包发送
@@ -354,6 +694,11 @@ export class NetNode {
     public socketSend(obj:RequestObject){
         obj.seq = obj.json.seq = this._seqId;
         obj.startTime = new Date().getTime()
+        //心跳的ctime用于计算RTT，按实际发出的时间算，不含排队等待
+        if (obj.rspName == "heartbeat") {
+            obj.json.msg.ctime = obj.startTime;
+        }
+        NetRecorder.getInstance().record(NetRecordDir.Send, obj.json, obj.otherData);
         this._socket.packAndSend(obj.json);
         this._seqId+=1;
         obj.sended = true;
@@ -369,6 +714,7 @@ export class NetNode {
         obj.json = {name:"heartbeat",msg:{ctime:new Date().getTime()},seq:0};
         obj.rspName = "heartbeat";
         obj.seq = 0;
+        obj.otherData = {type: this._type};
         return obj;
         
     }
@@ -376,7 +722,9 @@ export class NetNode {
 
     /********************** 心跳、超时相关处理 *********************/
     protected cannelMsgTimer(data:any = null) {
-        this._timer.cancel(data);
+        if (data) {
+            this._timer.cancel(data.seq);
+        }
     }
 
     protected resetHearbeatTimer() {
@@ -393,19 +741,28 @@ export class NetNode {
         if (this._keepAliveTimer !== null) {
             clearTimeout(this._keepAliveTimer);
         }
+        if (this._flushTimer !== null) {
+            clearTimeout(this._flushTimer);
+            this._flushTimer = null;
+        }
+        this._timer.destroy();
+    }
+
+    protected clearReconnectTimer() {
         if (this._reconnectTimer !== null) {
             clearTimeout(this._reconnectTimer);
+            this._reconnectTimer = null;
         }
-        this._timer.destroy();
     }
 
     public isAutoReconnect() {
-        return this._autoReconnect != 0;
+        return this._autoReconnect && this._reconnectPolicy != null;
     }
 
     public rejectReconnect() {
-        this._autoReconnect = 0;
+        this._autoReconnect = false;
         this.clearTimer();
+        this.clearReconnectTimer();
     }
 
 
@@ -422,6 +779,9 @@ export class NetNode {
     }
 
     protected destroyInvoke(invoke:RequestObject):void {
+        if (invoke.token) {
+            invoke.token.remove(invoke);
+        }
         invoke.destroy();
         this._invokePool.push(invoke);
         // console.log("destroyInvoke_invokePool :",this._invokePool.length)
@@ -0,0 +1,56 @@
+// 重连策略接口
+export interface IReconnectPolicy {
+    getDelay(times: number): number;        // 第times次(从1开始)重连前等待的毫秒数，返回-1表示放弃重连
+}
+
+
+export interface BackoffOptions {
+    maxTimes?: number,          // -1 永久重连，0不自动重连，其他正整数为自动重试次数
+    baseDelay?: number,         // 第一次重连等待时间(毫秒)
+    factor?: number,            // 每次重连等待时间的倍数
+    maxDelay?: number,          // 最大等待时间(毫秒)
+    jitter?: number,            // 随机抖动比例 0~1，避免大量客户端同时重连
+}
+
+
+/**
+ * 指数退避重连
+ * 等待时间 = min(maxDelay, baseDelay * factor^(times-1))，再上下随机抖动jitter比例
+ */
+export class BackoffReconnectPolicy implements IReconnectPolicy {
+    protected _maxTimes: number = 3;
+    protected _baseDelay: number = 2*1000;
+    protected _factor: number = 2;
+    protected _maxDelay: number = 30*1000;
+    protected _jitter: number = 0.2;
+
+    constructor(options: BackoffOptions = {}) {
+        if (options.maxTimes != undefined) {
+            this._maxTimes = options.maxTimes;
+        }
+        if (options.baseDelay != undefined) {
+            this._baseDelay = options.baseDelay;
+        }
+        if (options.factor != undefined) {
+            this._factor = options.factor;
+        }
+        if (options.maxDelay != undefined) {
+            this._maxDelay = options.maxDelay;
+        }
+        if (options.jitter != undefined) {
+            this._jitter = Math.min(Math.max(options.jitter, 0), 1);
+        }
+    }
+
+    public getDelay(times: number): number {
+        if (this._maxTimes >= 0 && times > this._maxTimes) {
+            return -1;
+        }
+
+        let delay = Math.min(this._maxDelay, this._baseDelay * Math.pow(this._factor, times - 1));
+        if (this._jitter > 0) {
+            delay = delay * (1 - this._jitter + Math.random() * this._jitter * 2);
+        }
+        return Math.floor(Math.min(delay, this._maxDelay));
+    }
+}
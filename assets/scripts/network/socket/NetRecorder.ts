@@ -0,0 +1,124 @@
+import { JSB } from 'cc/env';
+
+
+export enum NetRecordDir {
+    Send = "send",              // 客户端发出的请求
+    Recv = "recv",              // 服务器回包或推送
+}
+
+/**一条记录，保存时每条一行json*/
+export interface NetRecord {
+    time: number;               // 记录时间戳(毫秒)
+    dir: NetRecordDir;
+    name: string;
+    seq: number;
+    json: any;                  // 解密后的完整数据包
+    otherData?: any;            // 回包对应请求的otherData，回放时原样交给Command
+}
+
+
+/**
+ * 网络会话录制
+ * 记录NetNode收发的所有解密后的数据包，用于复现玩家反馈的问题
+ */
+export class NetRecorder {
+    private static _instance: NetRecorder = null;
+    public static getInstance(): NetRecorder {
+        if (this._instance == null) {
+            this._instance = new NetRecorder();
+        }
+        return this._instance;
+    }
+
+    protected _recording: boolean = false;
+    protected _records: NetRecord[] = [];
+    protected _startTime: number = 0;
+    protected _maxRecords: number = 5000;                   // 超出后丢弃最早的记录
+    protected _ignoreNames: string[] = ["heartbeat"];       // 不录制的接口
+
+    public get recording(): boolean {
+        return this._recording;
+    }
+
+    public get records(): NetRecord[] {
+        return this._records;
+    }
+
+    /**
+     * 开始录制，已经在录制时清空重新开始
+     * @param maxRecords 最多保留的记录数
+     */
+    public start(maxRecords: number = 5000): void {
+        this._maxRecords = Math.max(1, maxRecords);
+        this._records = [];
+        this._startTime = Date.now();
+        this._recording = true;
+    }
+
+    public stop(): void {
+        this._recording = false;
+    }
+
+    public record(dir: NetRecordDir, json: any, otherData: any = null): void {
+        if (!this._recording || json == null) {
+            return;
+        }
+        if (this._ignoreNames.indexOf(json.name) >= 0) {
+            return;
+        }
+
+        let record: NetRecord = {
+            time: Date.now(),
+            dir: dir,
+            name: json.name,
+            seq: json.seq,
+            json: JSON.parse(JSON.stringify(json)),
+        };
+        if (otherData != null) {
+            try {
+                record.otherData = JSON.parse(JSON.stringify(otherData));
+            } catch (error) {
+                console.log("NetRecorder otherData error:", json.name, error);
+            }
+        }
+        this._records.push(record);
+        if (this._records.length > this._maxRecords) {
+            this._records.splice(0, this._records.length - this._maxRecords);
+        }
+    }
+
+    /**
+     * 导出为json-lines
+     */
+    public toJsonLines(): string {
+        let lines: string[] = [];
+        for (let i = 0; i < this._records.length; i++) {
+            lines.push(JSON.stringify(this._records[i]));
+        }
+        return lines.join("\n");
+    }
+
+    /**
+     * 保存录制文件，原生平台写到可写目录，浏览器下载
+     * @returns 文件名
+     */
+    public save(): string {
+        let fileName = "net_" + this._startTime + ".jsonl";
+        let content = this.toJsonLines();
+
+        if (JSB) {
+            let path = jsb.fileUtils.getWritablePath() + fileName;
+            jsb.fileUtils.writeStringToFile(content, path);
+            console.log("NetRecorder save:", path);
+            return path;
+        }
+
+        let blob = new Blob([content], { type: "application/x-ndjson" });
+        let a = document.createElement("a");
+        a.href = URL.createObjectURL(blob);
+        a.download = fileName;
+        a.click();
+        URL.revokeObjectURL(a.href);
+        return fileName;
+    }
+}
@@ -0,0 +1,104 @@
+import { EventMgr } from "../../utils/EventMgr";
+import { NetRecord, NetRecordDir } from "./NetRecorder";
+
+
+/**
+ * 网络会话回放
+ * 把NetRecorder录制的回包和推送按原来的时间间隔重新派发给Command，不需要连接服务器：
+ *     NetReplayer.getInstance().play(jsonLines, 4);
+ */
+export class NetReplayer {
+    private static _instance: NetReplayer = null;
+    public static getInstance(): NetReplayer {
+        if (this._instance == null) {
+            this._instance = new NetReplayer();
+        }
+        return this._instance;
+    }
+
+    protected _records: NetRecord[] = [];
+    protected _timers: any[] = [];
+    protected _speed: number = 1;
+    protected _onComplete: Function = null;
+
+    public get playing(): boolean {
+        return this._timers.length > 0;
+    }
+
+    /**
+     * 解析录制文件
+     * @param jsonLines NetRecorder.toJsonLines()的内容
+     */
+    public static parse(jsonLines: string): NetRecord[] {
+        let records: NetRecord[] = [];
+        let lines = jsonLines.split("\n");
+        for (let i = 0; i < lines.length; i++) {
+            let line = lines[i].trim();
+            if (line == "") {
+                continue;
+            }
+            try {
+                records.push(JSON.parse(line));
+            } catch (error) {
+                console.log("NetReplayer parse error line:", i + 1, error);
+            }
+        }
+        return records;
+    }
+
+    /**
+     * 开始回放
+     * @param data 录制文件内容或记录列表
+     * @param speed 倍速，1为原速
+     * @param onComplete 全部派发完成后回调
+     */
+    public play(data: string | NetRecord[], speed: number = 1, onComplete: Function = null): void {
+        this.stop();
+
+        this._records = typeof data == "string" ? NetReplayer.parse(data) : data;
+        this._speed = speed > 0 ? speed : 1;
+        this._onComplete = onComplete;
+
+        //只回放服务器下发的数据，发出的请求仅用于对照
+        let recvs = this._records.filter((record) => { return record.dir == NetRecordDir.Recv; });
+        if (recvs.length == 0) {
+            this.complete();
+            return;
+        }
+
+        let startTime = recvs[0].time;
+        recvs.forEach((record, index) => {
+            let id = setTimeout(() => {
+                this._timers.splice(this._timers.indexOf(id), 1);
+                this.dispatch(record);
+                if (index == recvs.length - 1) {
+                    this.complete();
+                }
+            }, (record.time - startTime) / this._speed);
+            this._timers.push(id);
+        });
+    }
+
+    public stop(): void {
+        this._timers.forEach((id) => {
+            clearTimeout(id);
+        });
+        this._timers.length = 0;
+        this._onComplete = null;
+    }
+
+    protected dispatch(record: NetRecord): void {
+        // console.log("NetReplayer dispatch:", record.name, record.json);
+        if (record.otherData !== undefined) {
+            EventMgr.emit(record.name, record.json, record.otherData);
+        } else {
+            EventMgr.emit(record.name, record.json);
+        }
+    }
+
+    protected complete(): void {
+        let onComplete = this._onComplete;
+        this._onComplete = null;
+        onComplete && onComplete();
+    }
+}
@@ -0,0 +1,164 @@
+import { RequestObject } from "./NetInterface";
+
+
+// 请求优先级，数值越大越先发送
+export enum NetPriority {
+    Low = 0,                    // 后台请求，如地图扫描，队列满时优先丢弃
+    Normal = 1,                 // 默认
+    High = 2,                   // 玩家操作、登录、心跳
+}
+
+// 接口限频：interval毫秒内最多发送count次
+export interface NetRateLimit {
+    count: number,
+    interval: number,
+}
+
+
+/**
+ * 待发送请求队列
+ * 按优先级出队，同优先级先进先出；超过限频的接口暂缓发送，不阻塞其他接口；
+ * 队列满时丢弃优先级最低且最早入队的请求
+ */
+export class NetScheduler {
+    protected _queue: RequestObject[] = [];
+    protected _maxLength: number = 50;                                      // 队列上限
+    protected _priorities: Map<string, NetPriority> = new Map<string, NetPriority>();
+    protected _limits: Map<string, NetRateLimit> = new Map<string, NetRateLimit>();
+    protected _sendTimes: Map<string, number[]> = new Map<string, number[]>();   // 各接口最近的发送时间
+
+    public get length(): number {
+        return this._queue.length;
+    }
+
+    public setMaxLength(maxLength: number): void {
+        this._maxLength = maxLength;
+    }
+
+    public setPriority(name: string, priority: NetPriority): void {
+        this._priorities.set(name, priority);
+    }
+
+    public getPriority(name: string): NetPriority {
+        return this._priorities.has(name) ? this._priorities.get(name) : NetPriority.Normal;
+    }
+
+    public setRateLimit(name: string, limit: NetRateLimit): void {
+        if (limit) {
+            this._limits.set(name, limit);
+        } else {
+            this._limits.delete(name);
+        }
+    }
+
+    /**
+     * 入队
+     * @param req
+     * @returns 因队列已满被丢弃的请求，可能是req自己
+     */
+    public push(req: RequestObject): RequestObject {
+        req.priority = this.getPriority(req.rspName);
+
+        //插到同优先级的最后
+        let index = this._queue.length;
+        while (index > 0 && this._queue[index - 1].priority < req.priority) {
+            index--;
+        }
+        this._queue.splice(index, 0, req);
+
+        if (this._queue.length <= this._maxLength) {
+            return null;
+        }
+
+        //优先级最低的在队尾，同优先级里丢最早的那个
+        let lowest = this._queue[this._queue.length - 1].priority;
+        let dropIndex = this._queue.length - 1;
+        while (dropIndex > 0 && this._queue[dropIndex - 1].priority == lowest) {
+            dropIndex--;
+        }
+        return this._queue.splice(dropIndex, 1)[0];
+    }
+
+    /**
+     * 取出下一个可以发送的请求，并计入限频
+     * @param now 当前时间
+     */
+    public pop(now: number): RequestObject {
+        for (let i = 0; i < this._queue.length; i++) {
+            let req = this._queue[i];
+            if (this.getWaitTime(req.rspName, now) == 0) {
+                this._queue.splice(i, 1);
+                this.addSendTime(req.rspName, now);
+                return req;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 队列里最快什么时候能发出下一个请求
+     * @returns 需要等待的毫秒数，队列为空返回-1
+     */
+    public nextDelay(now: number): number {
+        let delay = -1;
+        for (let i = 0; i < this._queue.length; i++) {
+            let wait = this.getWaitTime(this._queue[i].rspName, now);
+            if (delay < 0 || wait < delay) {
+                delay = wait;
+            }
+        }
+        return delay;
+    }
+
+    /**
+     * 移出队列，用于取消还没发送的请求
+     * @returns 是否在队列中
+     */
+    public remove(req: RequestObject): boolean {
+        let index = this._queue.indexOf(req);
+        if (index < 0) {
+            return false;
+        }
+        this._queue.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * 清空队列
+     * @returns 队列里的所有请求
+     */
+    public clear(): RequestObject[] {
+        let queue = this._queue;
+        this._queue = [];
+        return queue;
+    }
+
+    protected getWaitTime(name: string, now: number): number {
+        let limit = this._limits.get(name);
+        if (limit == null) {
+            return 0;
+        }
+
+        let times = this._sendTimes.get(name);
+        if (times == null) {
+            return 0;
+        }
+        while (times.length > 0 && now - times[0] >= limit.interval) {
+            times.shift();
+        }
+        if (times.length < limit.count) {
+            return 0;
+        }
+        return limit.interval - (now - times[0]);
+    }
+
+    protected addSendTime(name: string, now: number): void {
+        if (!this._limits.has(name)) {
+            return;
+        }
+        if (!this._sendTimes.has(name)) {
+            this._sendTimes.set(name, []);
+        }
+        this._sendTimes.get(name).push(now);
+    }
+}
@@ -1,4 +1,3 @@
-
 import { _decorator } from 'cc';
 import { NetEvent } from "./NetInterface";
 import { EventMgr } from '../../utils/EventMgr';
@@ -7,82 +6,152 @@ import { EventMgr } from '../../utils/EventMgr';
 export class NetTimerData {
     public name:string = "";
     public seq:number = 0;
-    public timeId:number = 0;
+    public slot:number = 0;             // 所在格子
+    public rounds:number = 0;           // 指针还要转几圈才到期
 }
 
+
+/**
+ * 请求超时时间轮
+ * 所有请求共用一个定时器，每tick毫秒前进一格，按seq索引，schedule和cancel都是O(1)；
+ * 超时精度为一格，没有等待中的请求时停止定时器
+ */
 export class NetTimer {
-    private _tokens:any = null;
-    private _tokenId:number = 0;
+    protected _tick:number = 100;                                           // 每格毫秒数
+    protected _slots:Map<number, NetTimerData>[] = [];                      // 格子里按seq存放
+    protected _entries:Map<number, NetTimerData> = new Map();               // seq -> 所在格子
+    protected _routeTimeouts:Map<string, number> = new Map();               // 接口单独配置的超时
+    protected _cursor:number = 0;
+    protected _lastTime:number = 0;                                         // 指针上次前进的时间
+    protected _interval:any = null;
+
+    constructor(slotCount:number = 128, tick:number = 100){
+        this._tick = tick;
+        for (let i = 0; i < slotCount; i++) {
+            this._slots.push(new Map());
+        }
+    }
+
     public init(){
-        this._tokens = new Map();
-        this._tokenId = 0;
+        this.destroy();
+        this._cursor = 0;
+    }
+
+    /**
+     * 接口单独配置超时，如抽卡比心跳允许更久
+     * @param name 接口名
+     * @param timeout 毫秒，<=0时删除配置
+     */
+    public setRouteTimeout(name:string, timeout:number):void{
+        if(timeout > 0){
+            this._routeTimeouts.set(name, timeout);
+        }else{
+            this._routeTimeouts.delete(name);
+        }
+    }
+
+    public getTimeout(name:string, defaultTimeout:number):number{
+        return this._routeTimeouts.has(name) ? this._routeTimeouts.get(name) : defaultTimeout;
     }
 
+    /**
+     * 开始计时，同一个seq重复schedule时重新计时
+     * @param data 请求的json，需要name和seq
+     * @param delay 默认超时，接口有单独配置时使用配置
+     */
     public schedule(data:any,delay:number = 0):void{
-        
-        var self = this;
-        var token = this._tokenId++;
-        var id = setTimeout(function() { self.handleTimeout(token); }, delay);
+        this.cancel(data.seq);
+
+        let count = this._slots.length;
+        let ticks = Math.max(1, Math.ceil(this.getTimeout(data.name, delay) / this._tick));
 
         var timerData = new NetTimerData();
         timerData.name = data.name;
         timerData.seq = data.seq;
-        timerData.timeId = id;
+        timerData.slot = (this._cursor + ticks) % count;
+        timerData.rounds = Math.floor((ticks - 1) / count);
 
-        // console.log("NetTimer token size:",this._tokens.size,token)
-        this._tokens.set(token,timerData);
+        this._slots[timerData.slot].set(timerData.seq, timerData);
+        this._entries.set(timerData.seq, timerData);
+        this.start();
     }
 
-
-    private handleTimeout(id:number = 0):void{
-        var data = this._tokens.get(id);
-        if(data){
-            EventMgr.emit(NetEvent.ServerTimeOut, data);
-            this._tokens.delete(id);
+    /**
+     * 取消计时
+     * @param seq 请求的seq
+     */
+    public cancel(seq:number):void{
+        var timerData = this._entries.get(seq);
+        if(timerData == null){
+            return;
+        }
+        this._entries.delete(seq);
+        this._slots[timerData.slot].delete(seq);
+        if(this._entries.size == 0){
+            this.stop();
         }
     }
 
+    public get size():number{
+        return this._entries.size;
+    }
 
-    public cancel(data:any):void{
-        if(data == null){
-            return
-        }
-        var id = -1;
-        if(typeof(data)=='object'){
-            id = this.getKey(data);
-        }else{
-            id = data;
+    public destroy():void{
+        for (let i = 0; i < this._slots.length; i++) {
+            this._slots[i].clear();
         }
+        this._entries.clear();
+        this.stop();
+    }
 
-        // console.log("NetTimer token id:",id)
-        if(id >= 0){
-            this._tokens.delete(id);
-            clearTimeout(id);
-            // console.log("NetTimer token cancel:",this._tokens.size)
+    protected start():void{
+        if(this._interval !== null){
+            return;
         }
-
+        this._lastTime = new Date().getTime();
+        this._interval = setInterval(() => { this.update(); }, this._tick);
     }
 
+    protected stop():void{
+        if(this._interval !== null){
+            clearInterval(this._interval);
+            this._interval = null;
+        }
+    }
 
+    //按实际经过的时间前进，切后台时定时器被暂停，回来后一次补上
+    protected update():void{
+        let now = new Date().getTime();
+        let steps = Math.floor((now - this._lastTime) / this._tick);
+        this._lastTime += steps * this._tick;
 
-    private getKey(data:any):number{
-        var return_key = -1;
-        this._tokens.forEach((value , key) =>{
-            if(value.name == data.name && value.seq == data.seq){
-                return_key = key;
-            }    
-        });
-
-        return return_key;
+        for (let i = 0; i < steps && this._entries.size > 0; i++) {
+            this.advance();
+        }
+        if(this._entries.size == 0){
+            this.stop();
+        }
     }
 
-
-    public destroy():void{
-        var self = this;
-        this._tokens.forEach(function(key, value){
-            self.cancel(key);
+    protected advance():void{
+        this._cursor = (this._cursor + 1) % this._slots.length;
+        let slot = this._slots[this._cursor];
+        let expired:NetTimerData[] = [];
+        slot.forEach((timerData) => {
+            if(timerData.rounds > 0){
+                timerData.rounds--;
+            }else{
+                expired.push(timerData);
+            }
         });
-        this._tokens.clear();
-    }
 
+        //先移除再通知，回调里可能会schedule或cancel
+        for (let i = 0; i < expired.length; i++) {
+            slot.delete(expired[i].seq);
+            this._entries.delete(expired[i].seq);
+        }
+        for (let i = 0; i < expired.length; i++) {
+            EventMgr.emit(NetEvent.ServerTimeOut, expired[i], this);
+        }
+    }
 }
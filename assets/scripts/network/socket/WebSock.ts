@@ -2,12 +2,20 @@ import { ISocket } from "./NetInterface";
 import * as crypto  from "../../libs/crypto/crypto"
 import * as gzip from "../../libs/gzip/gzip";
 import { convert } from "../../libs/convert";
+import { INetCodec, packFrame, unpackFrame } from "./NetCodec";
+import { bytesToHex, createNetCipher, hexToBytes, INetCipher, NetCipherError, NetCipherVersion } from "./NetCipher";
+import * as msgpack from "../../libs/msgpack";
 
 
 
 export class WebSock implements ISocket {
     private _ws: WebSocket = null;              // websocket对象
     private _key:String = "";
+    private _reqCodec: INetCodec = null;        // 连接时请求的编码
+    private _codec: INetCodec = null;           // 握手确认后使用的编码，为空时使用旧协议(json + hex + gzip)
+    private _compressMin: number = 256;         // 小于该字节数的包不压缩
+    private _reqCipher: NetCipherVersion = NetCipherVersion.Legacy;     // 连接时请求的加密版本
+    private _cipher: INetCipher = null;         // 握手确认后使用的加密
 
 
     onConnected(event):void{
@@ -25,11 +33,35 @@ export class WebSock implements ISocket {
     }
 
 
+    onHandShakeError(error:any){
+
+    }
+
+
+    onFrameError(error:any){
+
+    }
+
+
     onMessage(msg):void{
     
         // console.log("websocket onMessage0:",msg)
         var ab = msg
         var view = new Uint8Array(ab)
+
+        if(this._codec && this._key != ""){
+            var frameJson = null;
+            try {
+                frameJson = unpackFrame(this._codec, view, this._cipher);
+            } catch (error) {
+                console.log("message decode error:",error)
+                this.onFrameError(error);
+                return;
+            }
+            this.onJsonMessage(frameJson);
+            return;
+        }
+
         var undata = gzip.unzip(view)
         var c = new convert()
         msg = c.byteToString(undata)
@@ -37,36 +69,42 @@ export class WebSock implements ISocket {
 
         //第一次
         if(this._key == ""){
+            var hand_data = null;
             try {
-                var hand_data = JSON.parse(msg);
+                hand_data = JSON.parse(msg);
                 console.log("hand_data:",hand_data)
-                if(hand_data.name == "handshake"){
-                    this._key = hand_data.msg.key;
-                    this.onGetKey();                    
-                    return;
-                }
             } catch (error) {
                 console.log("handshake parse error:",error)
+                this.onHandShakeError(error);
+                return;
+            }
+
+            if(hand_data && hand_data.name == "handshake"){
+                this._key = hand_data.msg.key;
+                //服务器确认了请求的编码和加密版本才切换，旧服务器不认识codec、crypto参数
+                this._codec = this._reqCodec && hand_data.msg.codec == this._reqCodec.name ? this._reqCodec : null;
+                let version = hand_data.msg.crypto == this._reqCipher ? this._reqCipher : NetCipherVersion.Legacy;
+                this._cipher = createNetCipher(version, hand_data.msg.key);
+                this.onGetKey();                    
+                return;
             }
         }
 
         // console.log("websocket onMessage2:",msg)
 
-        var decrypted = null;
+        var json = null;
         try {
-            decrypted = this.getAnddecrypt(msg);
+            var decrypted = this.getAnddecrypt(msg);
+            if(decrypted == ""){
+                throw new NetCipherError("解密失败");
+            }
+            json = JSON.parse(decrypted);
         } catch (error) {
             console.log("message ecrypt error:",error)
+            this.onFrameError(error);
+            return;
         }
-
-        if(decrypted == ""){
-            this._key = "";
-        }
-        // console.log("onMessage decrypted :",decrypted);
-        if(decrypted){
-            var json = JSON.parse(decrypted);
-            this.onJsonMessage(json);
-        }
+        this.onJsonMessage(json);
 
 
     }
@@ -96,8 +134,21 @@ export class WebSock implements ISocket {
             let protocol = options.protocol;
             url = `${protocol}://${ip}:${port}`;    
         }
-        console.log()
-        this._ws = new WebSocket(url);
+        this._reqCodec = options.codec ? options.codec : null;
+        this._codec = null;
+        this._reqCipher = options.cipher ? options.cipher : NetCipherVersion.Legacy;
+        this._cipher = null;
+        if(options.compressMin != undefined){
+            this._compressMin = options.compressMin;
+        }
+        if(this._reqCodec){
+            url += (url.indexOf("?") >= 0 ? "&" : "?") + "codec=" + this._reqCodec.name;
+        }
+        if(this._reqCipher != NetCipherVersion.Legacy){
+            url += (url.indexOf("?") >= 0 ? "&" : "?") + "crypto=" + this._reqCipher;
+        }
+
+        this._ws = options.createWebSocket ? options.createWebSocket(url) : new WebSocket(url);
         this._ws.binaryType = options.binaryType ? options.binaryType : "arraybuffer";
         this._ws.onmessage = (event) => {
             this.onMessage(event.data);
@@ -121,7 +172,11 @@ export class WebSock implements ISocket {
 
     close(code?: number, reason?: string) {
         this._key = "";
-        this._ws.close(code, reason);
+        this._codec = null;
+        this._cipher = null;
+        if (this._ws) {
+            this._ws.close(code, reason);
+        }
     }
 
 
@@ -131,6 +186,11 @@ export class WebSock implements ISocket {
      */
     public packAndSend(send_data:any){
         // console.log("packAndSend:", send_data);
+        if(this._codec && this._key != ""){
+            this.send(new Uint8Array(packFrame(this._codec, send_data, this._cipher, this._compressMin)));
+            return;
+        }
+
         var encrypt = this._key == ""?send_data:this.encrypt(send_data);
 
         var data = gzip.zip(encrypt, {level:9});
@@ -158,12 +218,16 @@ export class WebSock implements ISocket {
 
 
      encrypt(data:any) {
-        var key = crypto.enc.Utf8.parse(this._key);
-        var iv  = crypto.enc.Utf8.parse(this._key);
-
         if(typeof(data)=='object'){
             data = JSON.stringify(data);
         }
+        if(this._cipher && this._cipher.version != NetCipherVersion.Legacy){
+            return bytesToHex(this._cipher.encrypt(msgpack.utf8ToBytes(data)));
+        }
+
+        var key = crypto.enc.Utf8.parse(this._key);
+        var iv  = crypto.enc.Utf8.parse(this._key);
+
         let srcs = crypto.enc.Utf8.parse(data);
         let encrypted = crypto.AES.encrypt(srcs, key, { iv: iv, mode: crypto.mode.CBC, padding: crypto.pad.ZeroPadding });
     
@@ -173,6 +237,10 @@ export class WebSock implements ISocket {
 
 
     decrypt(message:string) {
+        if(this._cipher && this._cipher.version != NetCipherVersion.Legacy){
+            return msgpack.bytesToUtf8(this._cipher.decrypt(hexToBytes(message)));
+        }
+
         var key = crypto.enc.Utf8.parse(this._key);
         var iv  = crypto.enc.Utf8.parse(this._key);
 
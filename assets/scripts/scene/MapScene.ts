@@ -55,6 +55,7 @@ export default class MapScene extends Component {
         this.schedule(this.onTimer, 0.2);
 
         this.scheduleOnce(()=>{
+            EventMgr.emit(LogicEvent.mapReady);
             EventMgr.emit(CoreEvent.loadComplete);
         }, 0.6);
     }
@@ -1,5 +1,6 @@
 import { _decorator } from 'cc';
 import { ServerConfig } from "../config/ServerConfig";
+import { ServerResponse } from "../config/ServerProtocol";
 import { NetManager } from "../network/socket/NetManager";
 import SkillProxy from "./SkillProxy";
 import { EventMgr } from '../utils/EventMgr';
@@ -34,21 +35,21 @@ export default class SkillCommand {
         return this._proxy;
     }
     public qrySkillList(): void {
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.skill_list,
             msg: {}
         };
         NetManager.getInstance().send(sendData);
     }
     
-    protected onSkillList(data: any): void {
+    protected onSkillList(data: ServerResponse<"skill.list">): void {
         console.log("onSkillList", data);
         if (data.code == 0) {
             this._proxy.updateSkills(data.msg.list);
             EventMgr.emit(LogicEvent.skillListInfo);
         }
     }
-    protected onSkillPush(data: any): void {
+    protected onSkillPush(data: ServerResponse<"skill.push">): void {
         console.log("onSkillPush", data);
         this._proxy.updateSkills([data.msg]);
         EventMgr.emit(LogicEvent.updateGeneral);
@@ -1,7 +1,10 @@
 import { _decorator } from 'cc';
 import { NetManager } from "../network/socket/NetManager";
+import { NetNodeType } from "../network/socket/NetNode";
+import { NetCancelToken } from "../network/NetCancel";
 import UnionProxy, { Union } from "./UnionProxy";
 import { ServerConfig } from "../config/ServerConfig";
+import { ServerResponse } from "../config/ServerProtocol";
 import { MapCityData } from "../map/MapCityProxy";
 import MapCommand from "../map/MapCommand";
 import { EventMgr } from '../utils/EventMgr';
@@ -63,7 +66,7 @@ export default class UnionCommand {
     }
 
 
-    protected onUnionCreate(data: any, otherData: any): void {
+    protected onUnionCreate(data: ServerResponse<"union.create">, otherData: any): void {
         console.log("onUnionCreate", data);
         if (data.code == 0) {
             EventMgr.emit(LogicEvent.createUnionSuccess);
@@ -72,14 +75,14 @@ export default class UnionCommand {
     }
 
 
-    protected onUnionJoin(data: any, otherData: any): void {
+    protected onUnionJoin(data: ServerResponse<"union.join">, otherData: any): void {
         console.log("onUnionJoin", data);
         if (data.code == 0) {
         }
     }
 
 
-    protected onUnionList(data: any, otherData: any): void {
+    protected onUnionList(data: ServerResponse<"union.list">, otherData: any): void {
         console.log("onUnionList", data);
         if (data.code == 0) {
             this._proxy.updateUnionList(data.msg.list);
@@ -89,7 +92,7 @@ export default class UnionCommand {
     }
 
 
-    protected onUnionMember(data: any, otherData: any): void {
+    protected onUnionMember(data: ServerResponse<"union.member">, otherData: any): void {
         console.log("onUnionMember", data);
         if (data.code == 0) {
             this._proxy.updateMemberList(data.msg.id,data.msg.Members);
@@ -99,7 +102,7 @@ export default class UnionCommand {
     }
 
 
-    protected onUnionDisMiss(data: any, otherData: any): void {
+    protected onUnionDisMiss(data: ServerResponse<"union.dismiss" | "union.exit">, otherData: any): void {
         console.log("onUnionDisMiss", data);
         if (data.code == 0) {
             this.unionList();
@@ -108,7 +111,7 @@ export default class UnionCommand {
     }
 
 
-    protected onUnionApply(data: any, otherData: any): void {
+    protected onUnionApply(data: ServerResponse<"union.applyList">, otherData: any): void {
         console.log("onUnionApply", data);
         if (data.code == 0) {
             this._proxy.updateApplyList(data.msg.id, data.msg.applys);
@@ -117,7 +120,7 @@ export default class UnionCommand {
     }
 
 
-    protected onUnionVerify(data: any, otherData: any): void {
+    protected onUnionVerify(data: ServerResponse<"union.verify">, otherData: any): void {
         console.log("onUnionVerify", data);
         if (data.code == 0) {
             EventMgr.emit(LogicEvent.kickUnionSuccess);
@@ -126,21 +129,21 @@ export default class UnionCommand {
     }
 
 
-    protected onUnionKick(data: any, otherData: any): void {
+    protected onUnionKick(data: ServerResponse<"union.kick">, otherData: any): void {
         console.log("onUnionKick", data);
         if (data.code == 0) {
             EventMgr.emit(LogicEvent.kickUnionSuccess);
         }
     }
 
-    protected onUnionAppoint(data: any, otherData: any): void {
+    protected onUnionAppoint(data: ServerResponse<"union.appoint">, otherData: any): void {
         console.log("onUnionAppoint", data);
         if (data.code == 0) {
             EventMgr.emit(LogicEvent.unionAppoint, data.msg);
         }
     }
 
-    protected onUnionAbdicate(data: any, otherData: any): void {
+    protected onUnionAbdicate(data: ServerResponse<"union.abdicate">, otherData: any): void {
         console.log("onUnionAbdicate", data);
         if (data.code == 0) {
             EventMgr.emit(LogicEvent.unionAbdicate, data.msg);
@@ -148,7 +151,7 @@ export default class UnionCommand {
     }
 
 
-    protected onUnionNotice(data: any, otherData: any): void {
+    protected onUnionNotice(data: ServerResponse<"union.modNotice">, otherData: any): void {
         console.log("onUnionNotice", data);
         if(data.code == 0){
             this._proxy.updateNotice(data.msg.id, data.msg.text)
@@ -157,7 +160,7 @@ export default class UnionCommand {
         
     }
 
-    protected onUnionInfo(data: any, otherData: any): void {
+    protected onUnionInfo(data: ServerResponse<"union.info">, otherData: any): void {
         console.log("onUnionInfo", data);
         if(data.code == 0){
             let l = []
@@ -168,14 +171,14 @@ export default class UnionCommand {
         }
     }
 
-    protected onUnionLog(data: any, otherData: any): void {
+    protected onUnionLog(data: ServerResponse<"union.log">, otherData: any): void {
         console.log("onUnionLog", data);
         if(data.code == 0){
             EventMgr.emit(LogicEvent.unionLog, data.msg.logs);
         }
     }
     
-    protected onUnionApplyPush(data: any, otherData: any): void {
+    protected onUnionApplyPush(data: ServerResponse<"unionApply.push">, otherData: any): void {
         console.log("onUnionApplyPush", data);
         let city:MapCityData = MapCommand.getInstance().cityProxy.getMyMainCity();
         let unionData:Union = UnionCommand.getInstance().proxy.getUnion(city.unionId);
@@ -187,7 +190,7 @@ export default class UnionCommand {
 
 
     public unionCreate(name:string):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_create,
             msg: {
                 name: name,
@@ -198,7 +201,7 @@ export default class UnionCommand {
 
 
     public unionJoin(id:number = 0):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_join,
             msg: {
                 id: id,
@@ -209,7 +212,7 @@ export default class UnionCommand {
 
 
     public unionList():void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_list,
             msg: {
             }
@@ -218,7 +221,7 @@ export default class UnionCommand {
     }
 
     public unionInfo(id:number = 0):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_info,
             msg: {
                 id:id
@@ -228,19 +231,19 @@ export default class UnionCommand {
     }
 
 
-    public unionMember(id:number = 0):void{
-        let sendData: any = {
+    public unionMember(id:number = 0, token:NetCancelToken = null):void{
+        let sendData = {
             name: ServerConfig.union_member,
             msg: {
                 id: id,
             }
         };
-        NetManager.getInstance().send(sendData);
+        NetManager.getInstance().send(sendData, {}, false, NetNodeType.BaseServer, token);
     }
 
 
     public unionApplyList(id:number = 0):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_applyList,
             msg: {
                 id: id,
@@ -252,7 +255,7 @@ export default class UnionCommand {
 
 
     public unionDismiss():void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_dismiss,
             msg: {
             }
@@ -262,7 +265,7 @@ export default class UnionCommand {
 
 
     public unionVerify(id:number = 0,decide:number = 0):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_verify,
             msg: {
                 id:id,
@@ -274,7 +277,7 @@ export default class UnionCommand {
 
     
     public unionExit():void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_exit,
             msg: {
             }
@@ -284,7 +287,7 @@ export default class UnionCommand {
 
 
     public unionKick(rid:number = 0):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_kick,
             msg: {
                 rid:rid,
@@ -295,7 +298,7 @@ export default class UnionCommand {
     }
 
     public unionAppoint(rid:number = 0, title=1):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_appoint,
             msg: {
                 rid:rid,
@@ -306,7 +309,7 @@ export default class UnionCommand {
     }
 
     public unionAbdicate(rid:number = 0):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_abdicate,
             msg: {
                 rid:rid
@@ -316,7 +319,7 @@ export default class UnionCommand {
     }
 
     public modNotice(text:string):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_modNotice,
             msg: {
                 text:text,
@@ -326,7 +329,7 @@ export default class UnionCommand {
     }
 
     public appoint(rid:number = 0):void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_kick,
             msg: {
                 rid:rid,
@@ -336,7 +339,7 @@ export default class UnionCommand {
     }
 
     public unionLog():void{
-        let sendData: any = {
+        let sendData = {
             name: ServerConfig.union_log,
             msg: {
             }
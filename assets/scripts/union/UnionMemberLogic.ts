@@ -9,6 +9,7 @@ import UnionMemberItemOpLogic from "./UnionMemberItemOpLogic";
 import { EventMgr } from '../utils/EventMgr';
 import { AudioManager } from '../common/AudioManager';
 import { LogicEvent } from '../common/LogicEvent';
+import { NetCancelToken } from '../network/NetCancel';
 
 @ccclass('UnionMemberLogic')
 export default class UnionMemberLogic extends Component {
@@ -26,6 +27,7 @@ export default class UnionMemberLogic extends Component {
     opNode: Node = null;
 
     protected _op: Node = null;
+    protected _cancelToken: NetCancelToken = null;      // 关闭时取消还没回包的查询
 
     protected onLoad():void{
 
@@ -88,14 +90,19 @@ export default class UnionMemberLogic extends Component {
     protected getMember():void{
         let city:MapCityData = MapCommand.getInstance().cityProxy.getMyMainCity();
         let unionData:Union = UnionCommand.getInstance().proxy.getUnion(city.unionId);
-        UnionCommand.getInstance().unionMember(unionData.id);
+        UnionCommand.getInstance().unionMember(unionData.id, this._cancelToken);
     }
 
     protected onEnable():void{
+        this._cancelToken = new NetCancelToken();
         this.updateBtn();
         this.getMember();
     }
 
+    protected onDisable():void{
+        this._cancelToken.cancel();
+    }
+
     protected dismiss():void{
         AudioManager.instance.playClick();
         UnionCommand.getInstance().unionDismiss();
@@ -188,6 +188,30 @@ export default class UnionProxy {
         return this.isChairman(unionid,roleData.rid);
     }
 
+    public dumpState():any{
+        let members = {};
+        this._menberMap.forEach((list:Member[], id:number) => {
+            members[id] = list;
+        });
+        let applys = {};
+        this._applyMap.forEach((list:Apply[], id:number) => {
+            applys[id] = list;
+        });
+        return {unions: this.getUnionList(), members: members, applys: applys};
+    }
+
+    public restoreState(data:any):void{
+        this.updateUnionList(data.unions);
+        this._menberMap.clear();
+        for(let id in data.members){
+            this._menberMap.set(Number(id), data.members[id].map((member:any) => { return this.createMember(member); }));
+        }
+        this._applyMap.clear();
+        for(let id in data.applys){
+            this._applyMap.set(Number(id), data.applys[id]);
+        }
+    }
+
     public getMemberList(id:number):Member[]{
         return this._menberMap.get(id);
     }
@@ -3,9 +3,61 @@ export default class DateUtil {
     protected static _serverTime: number = 0;
     protected static _getServerTime: number = 0;
 
+    protected static _rttList: number[] = [];          // 最近几次心跳的往返时间
+    protected static _offsetList: number[] = [];       // 对应的服务器与本地时间差
+    protected static _maxSample: number = 8;
+    protected static _rtt: number = 0;
+
     public static setServerTime(time: number): void {
         this._serverTime = time;
         this._getServerTime = Date.now();
+        this._rttList.length = 0;
+        this._offsetList.length = 0;
+    }
+
+    /**
+     * 心跳回包校正服务器时间
+     * @param ctime 发心跳时的本地时间
+     * @param stime 服务器收到心跳时的时间
+     */
+    public static updateServerTime(ctime: number, stime: number): void {
+        let nowTime: number = Date.now();
+        let rtt: number = nowTime - ctime;
+        if (rtt < 0) {
+            return;
+        }
+
+        //服务器时间按单程延迟补偿
+        this._rttList.push(rtt);
+        this._offsetList.push(stime + rtt / 2 - nowTime);
+        if (this._rttList.length > this._maxSample) {
+            this._rttList.shift();
+            this._offsetList.shift();
+        }
+
+        let sum: number = 0;
+        let best: number = 0;
+        for (let i = 0; i < this._rttList.length; i++) {
+            sum += this._rttList[i];
+            if (this._rttList[i] < this._rttList[best]) {
+                best = i;
+            }
+        }
+        this._rtt = Math.round(sum / this._rttList.length);
+
+        //往返最快的一次受网络抖动影响最小，用它的时间差
+        this._serverTime = nowTime + this._offsetList[best];
+        this._getServerTime = nowTime;
+    }
+
+    /**平均往返延迟(毫秒)，还没有心跳数据时为0*/
+    public static getLatency(): number {
+        return this._rtt;
+    }
+
+    /**服务器时间减本地时间(毫秒)*/
+    public static getClockSkew(): number {
+        return Math.round(this._serverTime - this._getServerTime);
     }
 
     public static getServerTime(): number {
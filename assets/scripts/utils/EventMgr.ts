@@ -1,18 +1,139 @@
+/**
+ * 事件参数表，事件名 -> 参数元组，on/off/emit时检查参数
+ * 各模块在定义事件的文件里用declare module补充，如LogicEvent.ts、NetInterface.ts
+ * 没有登记的事件名(如服务器路由、旧的字符串事件)参数为any[]，迁移期间照常使用
+ */
+export interface EventMap {
+}
+
+export type EventArgs<K extends string> = K extends keyof EventMap ? EventMap[K] : any[];
+export type EventCallback<K extends string> = (...args: EventArgs<K>) => void;
+
 
 class EventHandler {
+    public name!:string;
     public handler!:Function;
     public target!:object;
+    public priority:number = 0;
+    public once:boolean = false;
+    public removed:boolean = false;         // 派发过程中被移除的不再调用
+    public order:number = 0;                // 注册顺序，同优先级先注册先调用
 
-    constructor(handler:Function, target:object){
+    constructor(name:string, handler:Function, target:object){
+        this.name = name;
         this.handler = handler;
         this.target = target;
     }
 }
 
+// 一次派发的记录
+export interface EventTraceRecord {
+    seq: number,
+    time: number,               // 派发时间
+    name: string,
+    args: string[],             // 参数摘要
+    targets: string[],          // 收到事件的监听
+    depth: number,              // 嵌套层级，监听里再派发的事件为上一层+1
+    cost: number,               // 所有监听的耗时(毫秒)，包含嵌套派发
+    error: string,              // 监听抛出的异常
+}
+
+
+/**
+ * 事件时间线，环形缓冲只保留最近的记录
+ * 用于排查登录->进服->拉取数据->进地图这类跨多个模块的事件链在哪一步断掉
+ */
+class EventTracer {
+    protected _records: EventTraceRecord[] = [];
+    protected _maxRecords: number = 200;
+    protected _index: number = 0;           // 下一条写入的位置
+    protected _seq: number = 0;
+    protected _depth: number = 0;
+
+    constructor(maxRecords: number) {
+        this._maxRecords = Math.max(1, maxRecords);
+    }
+
+    public begin(name: string, args: any[], list: EventHandler[]): EventTraceRecord {
+        let record: EventTraceRecord = {
+            seq: ++this._seq,
+            time: Date.now(),
+            name: name,
+            args: args.map((arg) => { return this.summary(arg); }),
+            targets: list.map((eh) => { return this.targetName(eh.target); }),
+            depth: this._depth,
+            cost: 0,
+            error: null,
+        };
+        this._records[this._index] = record;
+        this._index = (this._index + 1) % this._maxRecords;
+        this._depth++;
+        return record;
+    }
+
+    public end(record: EventTraceRecord): void {
+        this._depth--;
+        record.cost = Date.now() - record.time;
+    }
+
+    /**
+     * 按时间顺序返回记录
+     */
+    public getRecords(): EventTraceRecord[] {
+        if (this._records.length < this._maxRecords) {
+            return this._records.concat();
+        }
+        return this._records.slice(this._index).concat(this._records.slice(0, this._index));
+    }
+
+    //参数只保留摘要，避免记录里引用大对象
+    protected summary(arg: any): string {
+        if (arg === null || arg === undefined) {
+            return String(arg);
+        }
+        if (typeof arg == "string") {
+            return arg.length > 40 ? JSON.stringify(arg.substring(0, 40) + "...") : JSON.stringify(arg);
+        }
+        if (typeof arg != "object") {
+            return String(arg);
+        }
+        if (Array.isArray(arg)) {
+            return "Array(" + arg.length + ")";
+        }
+
+        let type = arg.constructor && arg.constructor.name ? arg.constructor.name : "Object";
+        //服务器回包带上接口名和错误码
+        if (typeof arg.name == "string" && arg.code !== undefined) {
+            return type + "{name:" + arg.name + ",code:" + arg.code + "}";
+        }
+        return type + "{" + Object.keys(arg).slice(0, 5).join(",") + "}";
+    }
+
+    protected targetName(target: any): string {
+        if (target == null) {
+            return "null";
+        }
+        let name = target.constructor && target.constructor.name ? target.constructor.name : typeof target;
+        if (target.node && target.node.name) {
+            name += "<" + target.node.name + ">";
+        }
+        return name;
+    }
+}
+
+
+/**
+ * 事件管理
+ * 优先级数值越大越先调用，同优先级按注册顺序；
+ * 事件名以.*结尾为通配监听，如union.*监听所有union.开头的事件，*监听所有事件，回调第一个参数为实际事件名；
+ * 派发时使用监听列表的快照，回调里on/off/targetOff不会跳过或重复调用其他监听
+ */
 class mgr {
     private static _instance: mgr = null;
     private events:Map<string, EventHandler[]> = new Map();
     private targetInName:Map<object, Set<string>> = new Map();
+    private order:number = 0;
+    private tracer:EventTracer = null;
 
     public static instance(): mgr {
         if (this._instance == null) {
@@ -21,32 +142,18 @@ class mgr {
         return this._instance;
     }
 
-    public on(name:string, handler:Function, target:object){
-        if(!this.events.has(name)){
-            this.events.set(name, []);
-        }
-
-        var events = this.events.get(name);
-        for (let i = 0; i < events.length; i++) {
-            const eh:EventHandler = events[i];
-            if(eh.handler == handler && eh.target == target){
-                //已经添加过了
-                console.log("已经添加过了:", name, handler, target);
-                return;
-            }
-        }
-
-        var eh:EventHandler = new EventHandler(handler, target);
-        events.push(eh);
+    public on<K extends string>(name:K, handler:EventCallback<K>, target:object, priority:number = 0){
+        this.add(name, handler, target, priority, false);
+    }
 
-        if(!this.targetInName.has(target)){
-            this.targetInName.set(target, new Set())
-        }
-        var set = this.targetInName.get(target);
-        set.add(name);
+    /**
+     * 只监听一次，派发后自动移除
+     */
+    public once<K extends string>(name:K, handler:EventCallback<K>, target:object, priority:number = 0){
+        this.add(name, handler, target, priority, true);
     }
 
-    public off(name:string, handler:Function, target:object){
+    public off<K extends string>(name:K, handler:EventCallback<K>, target:object){
         if(!this.events.has(name)){
             return;
         }
@@ -55,24 +162,71 @@ class mgr {
         for (let i = 0; i < events.length; i++) {
             const eh:EventHandler = events[i];
             if(eh.handler == handler && eh.target == target){
-                events.splice(i, i+1);
+                this.remove(eh);
                 break;
             }
         }
     }
 
-    public emit(name:string, ...args:any){
-        if(!this.events.has(name)){
+    public emit<K extends string>(name:K, ...args:EventArgs<K>){
+        var list:EventHandler[] = [];
+        if(this.events.has(name)){
+            list = this.events.get(name).concat();
+        }
+
+        //通配监听，回调多传一个事件名
+        var wildcards:EventHandler[] = [];
+        var parts = name.split(".");
+        for (let i = 0; i < parts.length; i++) {
+            let pattern = i == 0 ? "*" : parts.slice(0, i).join(".") + ".*";
+            if(pattern != name && this.events.has(pattern)){
+                wildcards = wildcards.concat(this.events.get(pattern));
+            }
+        }
+        if(wildcards.length > 0){
+            list = list.concat(wildcards);
+            list.sort(this.compare);
+        }
+
+        if(this.tracer == null){
+            this.dispatch(name, list, args);
             return;
         }
 
-        var events = this.events.get(name);
-        for (let i = 0; i < events.length; i++) {
-            const eh:EventHandler = events[i];
-            eh.handler.apply(eh.target, args);
+        var record = this.tracer.begin(name, args, list);
+        try {
+            this.dispatch(name, list, args);
+        } catch (error) {
+            record.error = String(error);
+            throw error;
+        } finally {
+            this.tracer.end(record);
         }
     }
 
+    /**
+     * 开始记录事件时间线，已经在记录时清空重新开始
+     * @param maxRecords 最多保留的记录数
+     */
+    public startTrace(maxRecords:number = 200){
+        this.tracer = new EventTracer(maxRecords);
+    }
+
+    public stopTrace(){
+        this.tracer = null;
+    }
+
+    public getTrace():EventTraceRecord[] {
+        return this.tracer ? this.tracer.getRecords() : [];
+    }
+
+    /**
+     * 导出时间线，可以直接附到bug报告里
+     */
+    public exportTrace():string {
+        return JSON.stringify(this.getTrace());
+    }
+
     public targetOff(target:object){
 
         if(!this.targetInName.has(target)){
@@ -84,17 +238,135 @@ class mgr {
         targetInName.forEach(name => {
             if(this.events.has(name)){
                let events = this.events.get(name);
-               for (let i = 0; i < events.length; i++) {
-                   const eh = events[i];
-                   if(eh.target == target){
-                        events.splice(i, i+1);
-                        i = i-1;
+               for (let i = events.length - 1; i >= 0; i--) {
+                   if(events[i].target == target){
+                        events[i].removed = true;
+                        events.splice(i, 1);
                    }
                }
+               if(events.length == 0){
+                   this.events.delete(name);
+               }
+            }
+        });
+
+        this.targetInName.delete(target);
+    }
+
+    /**
+     * 监听数量
+     * @param name 为空时统计所有事件
+     */
+    public listenerCount(name:string = null):number {
+        if(name != null){
+            return this.events.has(name) ? this.events.get(name).length : 0;
+        }
+        var count = 0;
+        this.events.forEach(events => {
+            count += events.length;
+        });
+        return count;
+    }
+
+    /**
+     * 各target的监听数量，从多到少排列，用于排查界面关闭后没有targetOff导致的泄漏
+     */
+    public getTargetCounts():{target:object, count:number}[] {
+        var counts:Map<object, number> = new Map();
+        this.events.forEach(events => {
+            for (let i = 0; i < events.length; i++) {
+                let target = events[i].target;
+                counts.set(target, (counts.get(target) || 0) + 1);
             }
         });
-        
-        targetInName.clear();
+
+        var list:{target:object, count:number}[] = [];
+        counts.forEach((count, target) => {
+            list.push({target: target, count: count});
+        });
+        list.sort((a, b) => { return b.count - a.count; });
+        return list;
+    }
+
+    protected dispatch(name:string, list:EventHandler[], args:any[]){
+        for (let i = 0; i < list.length; i++) {
+            const eh:EventHandler = list[i];
+            if(eh.removed){
+                continue;
+            }
+            if(eh.once){
+                this.remove(eh);
+            }
+            if(eh.name != name){
+                eh.handler.apply(eh.target, [name, ...args]);
+            }else{
+                eh.handler.apply(eh.target, args);
+            }
+        }
+    }
+
+    protected add(name:string, handler:Function, target:object, priority:number, once:boolean){
+        if(!this.events.has(name)){
+            this.events.set(name, []);
+        }
+
+        var events = this.events.get(name);
+        for (let i = 0; i < events.length; i++) {
+            const eh:EventHandler = events[i];
+            if(eh.handler == handler && eh.target == target){
+                //已经添加过了
+                console.log("已经添加过了:", name, handler, target);
+                return;
+            }
+        }
+
+        var eh:EventHandler = new EventHandler(name, handler, target);
+        eh.priority = priority;
+        eh.once = once;
+        eh.order = this.order++;
+
+        //插到同优先级的最后
+        let index = events.length;
+        while (index > 0 && events[index - 1].priority < priority) {
+            index--;
+        }
+        events.splice(index, 0, eh);
+
+        if(!this.targetInName.has(target)){
+            this.targetInName.set(target, new Set())
+        }
+        var set = this.targetInName.get(target);
+        set.add(name);
+    }
+
+    protected remove(eh:EventHandler){
+        var events = this.events.get(eh.name);
+        var index = events ? events.indexOf(eh) : -1;
+        if(index < 0){
+            return;
+        }
+        eh.removed = true;
+        events.splice(index, 1);
+        if(events.length == 0){
+            this.events.delete(eh.name);
+        }
+
+        //这个target在name上已经没有监听了
+        for (let i = 0; i < events.length; i++) {
+            if(events[i].target == eh.target){
+                return;
+            }
+        }
+        if(this.targetInName.has(eh.target)){
+            this.targetInName.get(eh.target).delete(eh.name);
+        }
+    }
+
+    protected compare(a:EventHandler, b:EventHandler):number {
+        if(a.priority != b.priority){
+            return b.priority - a.priority;
+        }
+        return a.order - b.order;
     }
 }
 
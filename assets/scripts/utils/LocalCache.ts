@@ -1,111 +1,342 @@
 import { sys } from "cc";
 
-export class LocalCache{
-    public static userListKey = "userListKey";
 
+// 缓存作用域
+export enum CacheScope {
+    Device = 0,             // 设备共用，如设备号、上次使用的线路
+    Account = 1,            // 按账号隔离
+    Server = 2,             // 按账号+区服隔离，如地图标记、聊天草稿
+}
 
-    public static setPersonMemory(keyStr, Value):void {
-        //log("setPersonMemory:" + keyStr + ", " + Value);
-    
-        if (keyStr === undefined || keyStr === null || keyStr === "") {
-            return;
+/**
+ * 缓存项，用cacheKey定义，值类型由defaultValue决定
+ */
+export interface CacheKey<T> {
+    readonly name: string,
+    readonly scope: CacheScope,
+    readonly defaultValue: T,
+    readonly ttl: number,               // 默认有效期(毫秒)，0为不过期
+}
+
+export function cacheKey<T>(name: string, scope: CacheScope, defaultValue: T, ttl: number = 0): CacheKey<T> {
+    return { name: name, scope: scope, defaultValue: defaultValue, ttl: ttl };
+}
+
+// 保存的一项
+export interface CacheEntry {
+    value: any,
+    expire: number,                     // 过期时间，0为不过期
+}
+
+/**
+ * 数据升级，旧版本的命名空间第一次读取时按版本依次执行
+ * @param entries 可以直接修改
+ * @param scope 命名空间的作用域
+ */
+export type CacheMigration = (entries: { [name: string]: CacheEntry }, scope: CacheScope) => void;
+
+// 一个命名空间，存为一条localStorage
+interface CacheNamespace {
+    version: number,
+    entries: { [name: string]: CacheEntry },
+}
+
+
+export const CacheKeys = {
+    deviceUuid: cacheKey<string>("deviceuuid", CacheScope.Device, ""),
+    serverEndpoint: cacheKey<string>("serverendpoint", CacheScope.Device, ""),      //上次使用的线路名
+    lastUid: cacheKey<number>("lastuid", CacheScope.Device, 0),                     //上次登录的账号，登录界面据此填入账号密码
+    loginValidation: cacheKey<{ username: string, password: string }>("loginvalidation", CacheScope.Account, null),
+    music: cacheKey<boolean>("music", CacheScope.Account, false),                   //设置，登录前使用默认值
+    sound: cacheKey<boolean>("sound", CacheScope.Account, false),
+    legacyLoginValidation: cacheKey<{ username: string, password: string }>("loginvalidation", CacheScope.Device, null),    //旧版设备共用的账号密码，第一次登录成功后移到账号下
+    posTags: cacheKey<{ x: number, y: number, name: string }[]>("postags", CacheScope.Server, []),     //地图位置标记，服务器列表返回前先显示
+    chatDraft: cacheKey<string>("chatdraft", CacheScope.Server, ""),               //聊天输入框里没发出去的内容
+};
+
+
+/**
+ * 本地缓存
+ * 按作用域分命名空间保存，账号、区服的数据互不可见：
+ *     device、account.<uid>、server.<uid>.<sid>各存一条localStorage
+ * 登录后setAccount、进入区服后setServer，没有账号时账号、区服作用域的读取返回默认值，写入被忽略
+ * 值原样保存，false、0、""不会被改成默认值；set undefined等同于remove
+ */
+export class LocalCache {
+    public static readonly version: number = 2;
+    public static readonly keyPrefix: string = "cache.";
+    public static userListKey = "userListKey";          //旧版所有数据存在这一条里，升级到版本1时迁移到device
+
+    protected static _uid: number = 0;
+    protected static _sid: number = 0;
+    protected static _namespaces: Map<string, CacheNamespace> = new Map<string, CacheNamespace>();
+    protected static _migrations: Map<number, CacheMigration> = new Map<number, CacheMigration>();
+
+    /**
+     * 切换账号，同时清空区服
+     * @param uid 0为登出
+     */
+    public static setAccount(uid: number): void {
+        if (uid != this._uid) {
+            this._uid = uid;
+            this._sid = 0;
         }
-    
-        if (Value === undefined || Value === null || Value === "") {
-            Value = false;
+    }
+
+    public static setServer(sid: number): void {
+        this._sid = sid;
+    }
+
+    /**
+     * 注册数据升级
+     * @param version 升级后的版本，不能大于LocalCache.version
+     */
+    public static addMigration(version: number, migration: CacheMigration): void {
+        this._migrations.set(version, migration);
+    }
+
+    public static get<T>(key: CacheKey<T>): T {
+        let ns = this.getNamespace(key.scope);
+        if (ns == null || !ns.entries.hasOwnProperty(key.name)) {
+            return key.defaultValue;
         }
-    
-        var jsonContent = LocalCache.getListForJson();
-        if (jsonContent === undefined || jsonContent === null || jsonContent === "") {
-            jsonContent = {};
+
+        let entry = ns.entries[key.name];
+        if (entry.expire > 0 && entry.expire <= Date.now()) {
+            this.remove(key);
+            return key.defaultValue;
         }
-        jsonContent[keyStr] = Value;
-    
-        var jsonstring = JSON.stringify(jsonContent);
-        sys.localStorage.setItem(LocalCache.userListKey, jsonstring);
-    };
+        return entry.value;
+    }
 
+    /**
+     * 保存
+     * @param ttl 有效期(毫秒)，为空使用key的默认有效期
+     */
+    public static set<T>(key: CacheKey<T>, value: T, ttl: number = key.ttl): void {
+        if (value === undefined) {
+            this.remove(key);
+            return;
+        }
 
+        let ns = this.getNamespace(key.scope);
+        if (ns == null) {
+            console.warn("LocalCache no account:", key.name);
+            return;
+        }
+        ns.entries[key.name] = { value: value, expire: ttl > 0 ? Date.now() + ttl : 0 };
+        this.save(key.scope, ns);
+    }
 
-    
-    public static getPersonMemory(keyStr, defaultValue):any {
-        //log("getPersonMemory:" + keyStr + ", " + defaultValue);
-    
-        //key不存在就gg了
-        if (keyStr === undefined || keyStr === null || keyStr === "") {
+    public static has<T>(key: CacheKey<T>): boolean {
+        this.get(key);      //顺便删除过期的
+        let ns = this.getNamespace(key.scope);
+        return ns != null && ns.entries.hasOwnProperty(key.name);
+    }
+
+    public static remove<T>(key: CacheKey<T>): void {
+        let ns = this.getNamespace(key.scope);
+        if (ns == null || !ns.entries.hasOwnProperty(key.name)) {
             return;
         }
-    
-        //获取本地已经保存的
-        var jsonContent = LocalCache.getListForJson();
-        if (jsonContent === null || jsonContent === undefined || jsonContent === "") {
-            jsonContent = {};
-        }
-    
-        
-        //如果本身值存在就返回本身
-        if (jsonContent[keyStr] !== null && jsonContent[keyStr] !== undefined && jsonContent[keyStr] !== "") {
-            return jsonContent[keyStr];
-        } else//如果本身不存在就判断默认是否存在
-        {
-            //默认也不存在 返回false
-            if (defaultValue === undefined || defaultValue === null || defaultValue === "") {
-                return false;
-            } else {
-                //默认存在  设置默认保存并且返回默认值
-                jsonContent[keyStr] = defaultValue;
-                var jsonstring = JSON.stringify(jsonContent);
-                sys.localStorage.setItem(LocalCache.userListKey, jsonstring);
-                return jsonContent[keyStr];
+        delete ns.entries[key.name];
+        this.save(key.scope, ns);
+    }
+
+    /**
+     * 清空当前账号或区服的一个作用域
+     */
+    public static clearScope(scope: CacheScope): void {
+        let name = this.getNamespaceName(scope);
+        if (name == null) {
+            return;
+        }
+        this._namespaces.delete(name);
+        sys.localStorage.removeItem(LocalCache.keyPrefix + name);
+    }
+
+    /**
+     * 删除当前作用域里所有过期的项
+     */
+    public static clearExpired(): void {
+        let now = Date.now();
+        [CacheScope.Device, CacheScope.Account, CacheScope.Server].forEach((scope) => {
+            let ns = this.getNamespace(scope);
+            if (ns == null) {
+                return;
+            }
+            let changed = false;
+            for (let name in ns.entries) {
+                if (ns.entries[name].expire > 0 && ns.entries[name].expire <= now) {
+                    delete ns.entries[name];
+                    changed = true;
+                }
             }
+            if (changed) {
+                this.save(scope, ns);
+            }
+        });
+    }
+
+    protected static getNamespaceName(scope: CacheScope, uid: number = this._uid, sid: number = this._sid): string {
+        if (scope == CacheScope.Device) {
+            return "device";
+        }
+        if (!uid) {
+            return null;
+        }
+        if (scope == CacheScope.Account) {
+            return "account." + uid;
         }
-    
+        if (!sid) {
+            return null;
+        }
+        return "server." + uid + "." + sid;
     }
 
+    //读取命名空间，版本低于当前版本时先升级
+    protected static getNamespace(scope: CacheScope, uid: number = this._uid, sid: number = this._sid): CacheNamespace {
+        let name = this.getNamespaceName(scope, uid, sid);
+        if (name == null) {
+            return null;
+        }
+        if (this._namespaces.has(name)) {
+            return this._namespaces.get(name);
+        }
 
-    public static getListForJson():any {
-        var jsondata = sys.localStorage.getItem(LocalCache.userListKey);
-        if (0 == Number(jsondata) || jsondata == undefined)
-            return;
-    
-        var jsonArray = JSON.parse(jsondata);
-        return jsonArray;
-    };
+        let ns: CacheNamespace = null;
+        let json = sys.localStorage.getItem(LocalCache.keyPrefix + name);
+        if (json) {
+            try {
+                ns = JSON.parse(json);
+            } catch (e) {
+                console.warn("LocalCache parse error:", name, e);
+            }
+        }
+        if (ns == null || ns.entries == null) {
+            ns = { version: 0, entries: {} };
+        }
+
+        if (ns.version < LocalCache.version) {
+            for (let version = ns.version + 1; version <= LocalCache.version; version++) {
+                if (this._migrations.has(version)) {
+                    this._migrations.get(version)(ns.entries, scope);
+                }
+            }
+            ns.version = LocalCache.version;
+            this.saveNamespace(name, ns);
+        }
+        this._namespaces.set(name, ns);
+        return ns;
+    }
 
+    protected static save(scope: CacheScope, ns: CacheNamespace): void {
+        let name = this.getNamespaceName(scope);
+        if (name != null) {
+            this.saveNamespace(name, ns);
+        }
+    }
 
-    public static getUuid():any{
-        return LocalCache.getPersonMemory("deviceuuid", "");
+    protected static saveNamespace(name: string, ns: CacheNamespace): void {
+        sys.localStorage.setItem(LocalCache.keyPrefix + name, JSON.stringify(ns));
     }
-    
-    public static setUuid(uuid):void {
-        LocalCache.setPersonMemory("deviceuuid", uuid);
-    };
 
 
-    public static setLoginValidation(data:any):void{
-        LocalCache.setPersonMemory("loginvalidation", data);
+    public static getUuid(): string {
+        return LocalCache.get(CacheKeys.deviceUuid);
     }
 
-    public static getLoginValidation():any{
-        return LocalCache.getPersonMemory("loginvalidation", "");
+    public static setUuid(uuid: string): void {
+        LocalCache.set(CacheKeys.deviceUuid, uuid);
     }
 
-    public static getMusic() {
-        return LocalCache.getPersonMemory("music", false);
+    /**
+     * 保存当前账号的账号密码，需要先setAccount
+     */
+    public static setLoginValidation(data: any): void {
+        LocalCache.set(CacheKeys.loginValidation, data);
+        if (LocalCache._uid) {
+            LocalCache.remove(CacheKeys.legacyLoginValidation);
+        }
     }
 
-    public static setMusic(state:Boolean) {
-        return LocalCache.setPersonMemory("music", state);
+    /**
+     * 登录前读取上次登录账号保存的账号密码，升级后还没登录过时使用旧版设备共用的
+     */
+    public static getLoginValidation(): any {
+        let uid = LocalCache._uid || LocalCache.get(CacheKeys.lastUid);
+        if (!uid) {
+            return LocalCache.get(CacheKeys.legacyLoginValidation);
+        }
+        let ns = LocalCache.getNamespace(CacheScope.Account, uid);
+        let entry = ns ? ns.entries[CacheKeys.loginValidation.name] : null;
+        return entry ? entry.value : CacheKeys.loginValidation.defaultValue;
     }
 
-    public static getSound() {
-        return LocalCache.getPersonMemory("sound", false);
+    public static setServerEndpoint(name: string): void {
+        LocalCache.set(CacheKeys.serverEndpoint, name);
     }
 
-    public static setSound(state:Boolean) {
-        return LocalCache.setPersonMemory("sound", state);
+    public static getServerEndpoint(): string {
+        return LocalCache.get(CacheKeys.serverEndpoint);
     }
 
+    public static getMusic(): boolean {
+        return LocalCache.get(CacheKeys.music);
+    }
+
+    public static setMusic(state: boolean): void {
+        LocalCache.set(CacheKeys.music, state);
+    }
 
+    public static getSound(): boolean {
+        return LocalCache.get(CacheKeys.sound);
+    }
 
+    public static setSound(state: boolean): void {
+        LocalCache.set(CacheKeys.sound, state);
+    }
 }
+
+
+//版本1：旧版userListKey里的数据都是设备共用的，迁移到device
+LocalCache.addMigration(1, (entries, scope) => {
+    if (scope != CacheScope.Device) {
+        return;
+    }
+    let json = sys.localStorage.getItem(LocalCache.userListKey);
+    if (!json) {
+        return;
+    }
+    try {
+        let list = JSON.parse(json);
+        for (let name in list) {
+            //旧版把空值存成false，迁移时丢掉，读取时使用新的默认值
+            if (list[name] !== false || name == CacheKeys.music.name || name == CacheKeys.sound.name) {
+                entries[name] = { value: list[name], expire: 0 };
+            }
+        }
+    } catch (e) {
+        console.warn("LocalCache migrate error:", e);
+    }
+    sys.localStorage.removeItem(LocalCache.userListKey);
+});
+
+
+//版本2：账号密码、音乐音效改为按账号保存，旧版设备共用的音乐音效归第一个登录的账号；
+//旧版账号密码留在device作为登录界面的默认值，登录成功保存到账号下时删除(见setLoginValidation)
+LocalCache.addMigration(2, (entries, scope) => {
+    if (scope != CacheScope.Account) {
+        return;
+    }
+    let device = {
+        music: cacheKey<boolean>(CacheKeys.music.name, CacheScope.Device, null),
+        sound: cacheKey<boolean>(CacheKeys.sound.name, CacheScope.Device, null),
+    };
+    [device.music, device.sound].forEach((key) => {
+        if (LocalCache.has(key)) {
+            entries[key.name] = { value: LocalCache.get(key), expire: 0 };
+            LocalCache.remove(key);
+        }
+    });
+});